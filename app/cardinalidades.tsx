@@ -0,0 +1,127 @@
+// ——— Inclusión–exclusión: cardinalidades de las regiones a partir de datos numéricos ———
+// Incógnitas: el número de elementos de cada región (máscara) del diagrama de Venn.
+// Cada dato |expr| = n es una ecuación lineal: la suma de las regiones que forman expr.
+import { exprVars, parseSetExpr, regionsOfExpr, type SetExpr } from "./expresiones";
+
+export type CardinalityConstraint = { line: number; text: string; expr: SetExpr; value: number };
+export type ConstraintError = { line: number; text: string; message: string };
+
+const EPS = 1e-9;
+
+// Una ecuación por renglón (o separadas por ;): "|A ∩ B| = 12"; las barras son opcionales
+export function parseCardinalities(
+  input: string,
+  names: string[]
+): { constraints: CardinalityConstraint[]; errors: ConstraintError[] } {
+  const constraints: CardinalityConstraint[] = [];
+  const errors: ConstraintError[] = [];
+  input.split(/[\n;]/).forEach((raw, line) => {
+    const text = raw.trim();
+    if (!text) return;
+    const m = text.match(/^(.*?)=\s*(\d+)\s*$/);
+    if (!m) {
+      errors.push({ line, text, message: "Se esperaba |expresión| = número" });
+      return;
+    }
+    const exprText = m[1].trim().replace(/^\|(.*)\|$/, "$1");
+    const parsed = parseSetExpr(exprText);
+    if (!parsed.ok) {
+      errors.push({ line, text, message: parsed.error });
+      return;
+    }
+    const unknown = exprVars(parsed.ast).find((n) => !names.includes(n));
+    if (unknown) {
+      errors.push({ line, text, message: `Conjunto desconocido '${unknown}'` });
+      return;
+    }
+    if (!regionsOfExpr(parsed.ast, names)) {
+      errors.push({ line, text, message: "Solo se admiten ∪, ∩, −, △ y complemento" });
+      return;
+    }
+    constraints.push({ line, text, expr: parsed.ast, value: Number(m[2]) });
+  });
+  return { constraints, errors };
+}
+
+// Fila de coeficientes (0/1 por región) de una expresión
+export function regionVector(expr: SetExpr, names: string[]): number[] {
+  const regions = regionsOfExpr(expr, names) ?? new Set<number>();
+  return Array.from({ length: 1 << names.length }, (_, mask) => (regions.has(mask) ? 1 : 0));
+}
+
+export type CardinalitySolution = {
+  rank: number;
+  unknowns: number;
+  // Renglón del dato que contradice a los anteriores (null si son consistentes)
+  conflictLine: number | null;
+  // Valor de cada región, o null si los datos no alcanzan para determinarla
+  counts: (number | null)[];
+  // Regiones con valor determinado negativo o no entero
+  invalidRegions: number[];
+  // Forma escalonada reducida, para responder otras preguntas
+  basis: { row: number[]; rhs: number; pivot: number }[];
+};
+
+export function solveCardinalities(
+  constraints: CardinalityConstraint[],
+  names: string[]
+): CardinalitySolution {
+  const n = 1 << names.length;
+  const basis: { row: number[]; rhs: number; pivot: number }[] = [];
+  let conflictLine: number | null = null;
+
+  // Eliminación gaussiana incremental (siempre en forma escalonada reducida)
+  for (const c of constraints) {
+    const row = regionVector(c.expr, names);
+    let rhs = c.value;
+    for (const b of basis) {
+      const f = row[b.pivot];
+      if (Math.abs(f) < EPS) continue;
+      for (let j = 0; j < n; j++) row[j] -= f * b.row[j];
+      rhs -= f * b.rhs;
+    }
+    const pivot = row.findIndex((v) => Math.abs(v) > EPS);
+    if (pivot < 0) {
+      if (Math.abs(rhs) > EPS && conflictLine === null) conflictLine = c.line;
+      continue;
+    }
+    const p = row[pivot];
+    for (let j = 0; j < n; j++) row[j] /= p;
+    rhs /= p;
+    for (const b of basis) {
+      const f = b.row[pivot];
+      if (Math.abs(f) < EPS) continue;
+      for (let j = 0; j < n; j++) b.row[j] -= f * row[j];
+      b.rhs -= f * rhs;
+    }
+    basis.push({ row, rhs, pivot });
+  }
+
+  const counts = Array.from({ length: n }, (_, mask) => {
+    const q = Array.from({ length: n }, (_, j) => (j === mask ? 1 : 0));
+    return evaluateQuery(q, basis);
+  });
+  const invalidRegions = counts
+    .map((v, mask) => ({ v, mask }))
+    .filter(({ v }) => v !== null && (v < -EPS || Math.abs(v - Math.round(v)) > EPS))
+    .map(({ mask }) => mask);
+
+  return { rank: basis.length, unknowns: n, conflictLine, counts, invalidRegions, basis };
+}
+
+// Valor de una combinación de regiones si está en el espacio generado por los datos
+export function evaluateQuery(
+  vector: number[],
+  basis: CardinalitySolution["basis"]
+): number | null {
+  const q = [...vector];
+  let value = 0;
+  for (const b of basis) {
+    const f = q[b.pivot];
+    if (Math.abs(f) < EPS) continue;
+    for (let j = 0; j < q.length; j++) q[j] -= f * b.row[j];
+    value += f * b.rhs;
+  }
+  if (q.some((v) => Math.abs(v) > EPS)) return null;
+  return Math.abs(value - Math.round(value)) < EPS ? Math.round(value) : value;
+}
@@ -0,0 +1,478 @@
+// ——— Utilidades de conjuntos finitos ———
+import type { ExprError, SetAlgebra } from "./expresiones";
+import { evalPredicate, parsePredicate } from "./predicados";
+
+type Elem = string; // Usamos string para manejar números o texto
+
+export function uniq<T>(arr: T[]): T[] {
+  return Array.from(new Set(arr));
+}
+
+export function toSet(arr: Elem[]): Set<Elem> {
+  return new Set(arr);
+}
+
+export function intersection<T>(a: Set<T>, b: Set<T>): Set<T> {
+  const out = new Set<T>();
+  a.forEach((x) => b.has(x) && out.add(x));
+  return out;
+}
+
+export function union<T>(a: Set<T>, b: Set<T>): Set<T> {
+  const out = new Set<T>(a);
+  b.forEach((x) => out.add(x));
+  return out;
+}
+
+export function difference<T>(a: Set<T>, b: Set<T>): Set<T> {
+  const out = new Set<T>();
+  a.forEach((x) => !b.has(x) && out.add(x));
+  return out;
+}
+
+export function equals<T>(a: Set<T>, b: Set<T>): boolean {
+  if (a.size !== b.size) return false;
+  for (const x of a) if (!b.has(x)) return false;
+  return true;
+}
+
+// Orden de presentación: numérico si ambos son números, alfabético en otro caso.
+// Los compuestos van después: primero las tuplas y al final los conjuntos, de menor a mayor.
+export function compareElems(a: Elem, b: Elem): number {
+  const ka = literalItems(a);
+  const kb = literalItems(b);
+  if (ka || kb) {
+    if (!ka || !kb) return ka ? 1 : -1;
+    if (ka.kind !== kb.kind) return ka.kind === "tuple" ? -1 : 1;
+    if (ka.items.length !== kb.items.length) return ka.items.length - kb.items.length;
+    for (let i = 0; i < ka.items.length; i++) {
+      const c = compareElems(ka.items[i], kb.items[i]);
+      if (c !== 0) return c;
+    }
+    return 0;
+  }
+  const x = Number(a);
+  const y = Number(b);
+  if (a.trim() !== "" && b.trim() !== "" && !isNaN(x) && !isNaN(y)) return x - y;
+  return a.localeCompare(b);
+}
+
+// Elementos compuestos: se guardan con un texto canónico para que la igualdad sea la de strings
+export function formatTuple(items: Elem[]): Elem {
+  return `(${items.join(",")})`;
+}
+
+// Sin repetidos y en orden: {3,2,2} y {2,3} tienen el mismo texto
+export function formatSetLiteral(items: Elem[]): Elem {
+  if (items.length === 0) return "∅";
+  return `{${uniq(items).sort(compareElems).join(",")}}`;
+}
+
+// Componentes de una tupla o elementos de un conjunto en forma canónica; null si es atómico
+export function literalItems(x: Elem): { kind: "tuple" | "set"; items: Elem[] } | null {
+  if (x === "∅") return { kind: "set", items: [] };
+  const kind =
+    x.startsWith("(") && x.endsWith(")")
+      ? "tuple"
+      : x.startsWith("{") && x.endsWith("}")
+      ? "set"
+      : null;
+  if (!kind) return null;
+  const items: Elem[] = [];
+  let depth = 0;
+  let from = 1;
+  for (let i = 1; i < x.length - 1; i++) {
+    if (x[i] === "(" || x[i] === "{") depth++;
+    else if (x[i] === ")" || x[i] === "}") depth--;
+    else if (x[i] === "," && depth === 0) {
+      items.push(x.slice(from, i));
+      from = i + 1;
+    }
+  }
+  items.push(x.slice(from, x.length - 1));
+  return { kind, items };
+}
+
+export function cartesianProduct(a: Set<Elem>, b: Set<Elem>): Set<Elem> {
+  const out = new Set<Elem>();
+  a.forEach((x) => b.forEach((y) => out.add(formatTuple([x, y]))));
+  return out;
+}
+
+// Con |A| = 12 ya son 4096 subconjuntos; más que eso no cabe en pantalla
+export const MAX_POWERSET_BASE = 12;
+
+export function powerSet(a: Set<Elem>): Set<Elem> {
+  const items = Array.from(a).sort(compareElems);
+  if (items.length > MAX_POWERSET_BASE) {
+    throw new Error(
+      `P(X) con |X| = ${items.length} tendría 2^${items.length} elementos (máximo |X| = ${MAX_POWERSET_BASE})`
+    );
+  }
+  const subsets: Elem[][] = [];
+  for (let mask = 0; mask < 1 << items.length; mask++) {
+    subsets.push(items.filter((_, i) => mask & (1 << i)));
+  }
+  // Por tamaño y luego en orden de los elementos: ∅, {1}, {2}, …, {1,2}, …
+  subsets.sort((x, y) => {
+    if (x.length !== y.length) return x.length - y.length;
+    for (let i = 0; i < x.length; i++) {
+      const c = compareElems(x[i], y[i]);
+      if (c !== 0) return c;
+    }
+    return 0;
+  });
+  return new Set(subsets.map(formatSetLiteral));
+}
+
+// Álgebra para evaluar expresiones sobre los conjuntos concretos (complemento respecto a U)
+export function finiteSetAlgebra(
+  U: Set<Elem>,
+  lookup: (name: string) => Set<Elem> | undefined
+): SetAlgebra<Set<Elem>> {
+  return {
+    lookup,
+    universe: U,
+    empty: new Set(),
+    union,
+    intersection,
+    difference,
+    complement: (a) => difference(U, a),
+    product: cartesianProduct,
+    powerSet,
+  };
+}
+
+// ——— Regiones del diagrama de Venn ———
+// Cada región se identifica con una máscara: el bit i indica pertenencia al conjunto i.
+// Con k conjuntos hay 2^k regiones; la máscara 0 es "fuera de todos".
+export type Region = { mask: number; items: Elem[] };
+
+export function bucketize(U: Set<Elem>, sets: Set<Elem>[]): Region[] {
+  const regions: Region[] = Array.from({ length: 1 << sets.length }, (_, mask) => ({
+    mask,
+    items: [],
+  }));
+  U.forEach((x) => {
+    let mask = 0;
+    sets.forEach((S, i) => {
+      if (S.has(x)) mask |= 1 << i;
+    });
+    regions[mask].items.push(x);
+  });
+  return regions;
+}
+
+export function popcount(mask: number): number {
+  let n = 0;
+  for (let m = mask; m; m &= m - 1) n++;
+  return n;
+}
+
+// Orden de lectura: primero "solo X", luego intersecciones dobles, … y al final "fuera"
+export function regionOrder(regions: Region[]): Region[] {
+  return [...regions].sort((a, b) => {
+    if (a.mask === 0 || b.mask === 0) return a.mask === 0 ? 1 : -1;
+    return popcount(a.mask) - popcount(b.mask) || a.mask - b.mask;
+  });
+}
+
+export function regionLabel(mask: number, names: string[]): string {
+  const inside = names.filter((_, i) => mask & (1 << i));
+  const outside = names.filter((_, i) => !(mask & (1 << i)));
+  if (inside.length === 0) return `Fuera (U − (${names.join(" ∪ ")}))`;
+  if (outside.length === 0) return inside.join(" ∩ ");
+  if (inside.length === 1) return `${inside[0]} solamente`;
+  return `${inside.join(" ∩ ")} (sin ${outside.join(", ")})`;
+}
+
+// ——— Entrada de conjuntos: listas, rangos y notación constructora ———
+// "1, 2, 3", "1..100", "1..100 step 3" (se pueden mezclar) o "{x ∈ U | x mod 3 = 0}".
+export type SetInputResult = { elems: Elem[]; error: ExprError | null };
+
+// Más elementos que esto no se pueden mostrar ni operar con comodidad
+export const MAX_RANGE_SIZE = 10000;
+
+const rangeAt = /(-?\d+)\s*\.\.\s*(-?\d+)(?:\s+(?:step|paso)\s+(-?\d+))?/y;
+const atomAt = /[^\s,;{}()]+/y;
+// Multiplicidad o grado pegado a un compuesto: "{1,2}×2", "(1,2):0.5"
+const suffixAt = /[×*:][^\s,;{}()]*/y;
+
+function expandRange(from: number, to: number, step: number): Elem[] {
+  if (step <= 0) throw new Error("El paso del rango debe ser positivo");
+  const size = Math.floor(Math.abs(to - from) / step) + 1;
+  if (size > MAX_RANGE_SIZE) {
+    throw new Error(`El rango tendría ${size} elementos (máximo ${MAX_RANGE_SIZE})`);
+  }
+  const dir = to >= from ? 1 : -1;
+  return Array.from({ length: size }, (_, i) => String(from + dir * i * step));
+}
+
+class ListException extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+  }
+}
+
+// Cada elemento o rango escrito, con su posición en el texto (para diagnósticos).
+// Si no es un rango, elems tiene un solo elemento en forma canónica ({3,2} → {2,3}).
+export type ListToken = {
+  text: string;
+  start: number;
+  end: number;
+  elems: Elem[];
+  range: boolean;
+};
+
+// Índice de la llave que cierra a la de `open`, o -1
+function closingBrace(input: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < input.length; i++) {
+    if (input[i] === "{") depth++;
+    else if (input[i] === "}" && --depth === 0) return i;
+  }
+  return -1;
+}
+
+// Elementos: átomos (1, a, x2), ∅, tuplas (1,2) y conjuntos {1,{2,3}} anidados sin límite.
+// Si todo el texto va entre llaves, esas llaves son las del propio conjunto: "{1,{2,3},∅}"
+// tiene tres elementos (igual que "1, {2,3}, ∅"); para un conjunto con un solo elemento
+// conjunto se escribe "{{2,3}}". Un "∅" solo también es el conjunto vacío.
+export function scanListInput(input: string): { tokens: ListToken[]; error: ExprError | null } {
+  let p = 0;
+  const match = (re: RegExp) => {
+    re.lastIndex = p;
+    const m = re.exec(input);
+    if (m) p = re.lastIndex;
+    return m;
+  };
+  const skip = (chars: RegExp) => {
+    while (p < input.length && chars.test(input[p])) p++;
+  };
+
+  const parseElem = (): Elem => {
+    const start = p;
+    const ch = input[p];
+    if (ch === "{") {
+      p++;
+      return formatSetLiteral(parseItems("}", start).flatMap((t) => t.elems));
+    }
+    if (ch === "(") {
+      p++;
+      const parts: Elem[] = [];
+      for (;;) {
+        skip(/\s/);
+        if (p >= input.length) {
+          throw new ListException("Falta cerrar el paréntesis )", start, input.length);
+        }
+        parts.push(parseElem());
+        skip(/\s/);
+        if (p >= input.length) {
+          throw new ListException("Falta cerrar el paréntesis )", start, input.length);
+        }
+        if (input[p] === ",") p++;
+        else if (input[p] === ")") break;
+        else throw new ListException("Se esperaba ',' o ')' en la tupla", p, p + 1);
+      }
+      p++;
+      if (parts.length < 2) {
+        throw new ListException("Una tupla necesita al menos dos componentes", start, p);
+      }
+      return formatTuple(parts);
+    }
+    if (ch === "}" || ch === ")") throw new ListException(`'${ch}' sin abrir`, p, p + 1);
+    const atom = match(atomAt);
+    if (!atom) throw new ListException("Se esperaba un elemento", p, p + 1);
+    if (atom[0].includes("..")) {
+      throw new ListException("Rango incompleto: se esperaba inicio..fin", start, p);
+    }
+    return atom[0] === "∅" ? formatSetLiteral([]) : atom[0];
+  };
+
+  // Elementos y rangos hasta la llave que cierra (o hasta el final si close es null)
+  const parseItems = (close: "}" | null, openAt: number): ListToken[] => {
+    const out: ListToken[] = [];
+    for (;;) {
+      skip(/[\s,;]/);
+      if (p >= input.length) {
+        if (close) throw new ListException("Falta cerrar la llave }", openAt, input.length);
+        return out;
+      }
+      if (close && input[p] === close) {
+        p++;
+        return out;
+      }
+      const start = p;
+      const range = match(rangeAt);
+      if (range) {
+        try {
+          const step = range[3] ? Number(range[3]) : 1;
+          const elems = expandRange(Number(range[1]), Number(range[2]), step);
+          out.push({ text: range[0], start, end: p, elems, range: true });
+        } catch (e) {
+          throw new ListException((e as Error).message, start, p);
+        }
+        continue;
+      }
+      let elem = parseElem();
+      if (input[start] === "{" || input[start] === "(") elem += match(suffixAt)?.[0] ?? "";
+      out.push({ text: input.slice(start, p), start, end: p, elems: [elem], range: false });
+    }
+  };
+
+  try {
+    const open = input.search(/\S/);
+    const trimmedEnd = input.trimEnd().length;
+    if (open >= 0 && input[open] === "{" && closingBrace(input, open) === trimmedEnd - 1) {
+      p = open + 1;
+      return { tokens: parseItems("}", open), error: null };
+    }
+    if (input.trim() === "∅") return { tokens: [], error: null };
+    return { tokens: parseItems(null, 0), error: null };
+  } catch (e) {
+    if (e instanceof ListException) {
+      return { tokens: [], error: { ok: false, error: e.message, start: e.start, end: e.end } };
+    }
+    throw e;
+  }
+}
+
+function parseListInput(input: string): SetInputResult {
+  const { tokens, error } = scanListInput(input);
+  if (error) return { elems: [], error };
+  return { elems: uniq(tokens.flatMap((t) => t.elems)), error: null };
+}
+
+// Partes de "{x ∈ D | P(x)}": null si el texto no tiene esa forma. Con colonIsDegree (modo
+// difuso) solo "|" separa el predicado: "{a:0.5, b:0.3}" es una lista con grados
+function splitSetBuilder(input: string, colonIsDegree = false) {
+  const open = input.indexOf("{");
+  const close = input.lastIndexOf("}");
+  if (open < 0 || input.slice(0, open).trim() || close < open || input.slice(close + 1).trim()) {
+    return null;
+  }
+  const inner = input.slice(open + 1, close);
+  const sep = inner.search(colonIsDegree ? /\|/ : /[|:]/);
+  if (sep < 0) return null;
+  const header = inner.slice(0, sep).match(/^\s*([\p{L}_][\p{L}\p{N}_]*)\s*(?:(?:∈|\bin\b)\s*(.*?))?\s*$/u);
+  if (!header) return null;
+  return { open, close, inner, sep, header };
+}
+
+export function isSetBuilder(input: string, colonIsDegree = false): boolean {
+  return splitSetBuilder(input, colonIsDegree) !== null;
+}
+
+// {x ∈ D | P(x)} o {x | P(x)} (dominio U). También se acepta ":" en lugar de "|".
+function parseSetBuilder(
+  input: string,
+  lookupSet: (name: string) => Set<Elem> | undefined,
+  colonIsDegree: boolean
+): SetInputResult | null {
+  const parts = splitSetBuilder(input, colonIsDegree);
+  if (!parts) return null;
+  const { open, close, inner, sep, header } = parts;
+
+  const fail = (error: string, start: number, end: number): SetInputResult => ({
+    elems: [],
+    error: { ok: false, error, start, end },
+  });
+  const variable = header[1];
+  const domainText = header[2] ?? "";
+  const domainStart = open + 1 + inner.slice(0, sep).lastIndexOf(domainText);
+  const domainEnd = domainStart + domainText.length;
+
+  // Dominio: un conjunto con nombre, un rango o (si se omite) el universo
+  let domain: Elem[];
+  try {
+    if (!domainText) {
+      const U = lookupSet("U");
+      if (!U) {
+        return fail("Indica el dominio, p. ej. {x ∈ 1..100 | …}", open + 1, open + 1 + sep);
+      }
+      domain = Array.from(U);
+    } else if (/^[\p{L}_][\p{L}\p{N}_]*$/u.test(domainText)) {
+      const S = lookupSet(domainText);
+      if (!S) return fail(`Conjunto desconocido '${domainText}'`, domainStart, domainEnd);
+      domain = Array.from(S);
+    } else {
+      const list = parseListInput(domainText);
+      if (list.error) {
+        return fail(list.error.error, domainStart + list.error.start, domainStart + list.error.end);
+      }
+      domain = list.elems;
+    }
+  } catch (e) {
+    return fail((e as Error).message, domainStart, domainEnd);
+  }
+
+  const predStart = open + 1 + sep + 1;
+  const parsed = parsePredicate(inner.slice(sep + 1), [variable]);
+  if (!parsed.ok) {
+    return fail(parsed.error, predStart + parsed.start, predStart + parsed.end);
+  }
+  const elems: Elem[] = [];
+  for (const x of domain) {
+    const r = evalPredicate(parsed.ast, { vars: { [variable]: x }, lookupSet });
+    if (!r.ok) {
+      return fail(`${r.error} (con ${variable} = ${x})`, predStart + r.start, predStart + r.end);
+    }
+    if (typeof r.value !== "boolean") {
+      return fail("El predicado debe ser una condición (verdadero/falso)", predStart, close);
+    }
+    if (r.value) elems.push(x);
+  }
+  return { elems, error: null };
+}
+
+export function parseSetInput(
+  input: string,
+  lookupSet: (name: string) => Set<Elem> | undefined,
+  colonIsDegree = false
+): SetInputResult {
+  return parseSetBuilder(input, lookupSet, colonIsDegree) ?? parseListInput(input);
+}
+
+// Resuelve U y los conjuntos con nombre; un conjunto puede referirse a otros en su predicado.
+// U solo puede usar dominios explícitos (no depende de los demás).
+export function resolveSetInputs(
+  universeText: string,
+  inputs: { name: string; text: string }[],
+  colonIsDegree = false
+): { universe: SetInputResult; sets: SetInputResult[] } {
+  const universe = parseSetInput(universeText, () => undefined, colonIsDegree);
+  const U = new Set(universe.elems);
+  const results: (SetInputResult | undefined)[] = [];
+  const path: number[] = [];
+  const cycles = new Map<number, string>();
+
+  const resolve = (i: number): SetInputResult => {
+    const done = results[i];
+    if (done) return done;
+    path.push(i);
+    const r = parseSetInput(
+      inputs[i].text,
+      (name) => {
+        if (name === "U") return U;
+        const j = inputs.findIndex((s) => s.name === name);
+        if (j < 0) return undefined;
+        const k = path.indexOf(j);
+        if (k >= 0) {
+          const message =
+            "Referencia circular: " + [...path.slice(k), j].map((n) => inputs[n].name).join(" → ");
+          path.slice(k).forEach((n) => cycles.set(n, message));
+          throw new Error(message);
+        }
+        const dep = resolve(j);
+        if (dep.error) throw new Error(cycles.get(j) ?? `El conjunto ${name} tiene un error`);
+        return new Set(dep.elems);
+      },
+      colonIsDegree
+    );
+    path.pop();
+    results[i] = r;
+    return r;
+  };
+
+  return { universe, sets: inputs.map((_, i) => resolve(i)) };
+}
@@ -0,0 +1,199 @@
+// ——— Relaciones entre conjuntos: contención, disyunción, complementos, particiones ———
+import React from "react";
+import { difference, equals, intersection, union } from "./conjuntos";
+
+type Elem = string;
+
+export type NamedSet = { name: string; set: Set<Elem> };
+
+export type PairRelation = {
+  x: string;
+  y: string;
+  subset: boolean; // X ⊆ Y
+  superset: boolean; // X ⊇ Y
+  equal: boolean;
+  disjoint: boolean; // X ∩ Y = ∅
+  complementary: boolean; // Y = U − X
+};
+
+export function compareSets(X: NamedSet, Y: NamedSet, U: Set<Elem>): PairRelation {
+  const subset = difference(X.set, Y.set).size === 0;
+  const superset = difference(Y.set, X.set).size === 0;
+  return {
+    x: X.name,
+    y: Y.name,
+    subset,
+    superset,
+    equal: subset && superset,
+    disjoint: intersection(X.set, Y.set).size === 0,
+    complementary: equals(Y.set, difference(U, X.set)),
+  };
+}
+
+// Todos los pares sin repetir (X, Y) con X antes que Y
+export function relationshipTable(items: NamedSet[], U: Set<Elem>): PairRelation[] {
+  const out: PairRelation[] = [];
+  items.forEach((X, i) => items.slice(i + 1).forEach((Y) => out.push(compareSets(X, Y, U))));
+  return out;
+}
+
+// Frase corta con la relación más fuerte que se cumple
+export function describePair(r: PairRelation): string {
+  if (r.complementary) return `${r.y} = U − ${r.x}`;
+  if (r.equal) return `${r.x} = ${r.y}`;
+  if (r.subset) return `${r.x} ⊂ ${r.y}`;
+  if (r.superset) return `${r.y} ⊂ ${r.x}`;
+  if (r.disjoint) return `${r.x} ∩ ${r.y} = ∅`;
+  return "Se traslapan";
+}
+
+export type CoverReport = {
+  cover: boolean; // la unión es U
+  partition: boolean; // además: no vacíos y ajenos dos a dos
+  uncovered: Elem[];
+  overlaps: { x: string; y: string; common: Elem[] }[];
+  empty: string[];
+};
+
+export function coverReport(items: NamedSet[], U: Set<Elem>): CoverReport {
+  const all = items.reduce((acc, s) => union(acc, s.set), new Set<Elem>());
+  const uncovered = Array.from(difference(U, all));
+  const overlaps: CoverReport["overlaps"] = [];
+  items.forEach((X, i) =>
+    items.slice(i + 1).forEach((Y) => {
+      const common = intersection(X.set, Y.set);
+      if (common.size > 0) overlaps.push({ x: X.name, y: Y.name, common: Array.from(common) });
+    })
+  );
+  const empty = items.filter((s) => s.set.size === 0).map((s) => s.name);
+  const cover = uncovered.length === 0;
+  return {
+    cover,
+    partition: cover && overlaps.length === 0 && empty.length === 0,
+    uncovered,
+    overlaps,
+    empty,
+  };
+}
+
+// ——— Bosquejo de Euler: cada conjunto dentro del menor que lo contiene ———
+export type ContainmentNode = { names: string[]; size: number; children: ContainmentNode[] };
+
+export function containmentForest(items: NamedSet[]): ContainmentNode[] {
+  // Los conjuntos iguales se dibujan como una sola figura
+  const groups: { names: string[]; set: Set<Elem> }[] = [];
+  for (const s of items) {
+    const g = groups.find((g) => equals(g.set, s.set));
+    if (g) g.names.push(s.name);
+    else groups.push({ names: [s.name], set: s.set });
+  }
+  const strictlyInside = (a: Set<Elem>, b: Set<Elem>) =>
+    a.size < b.size && difference(a, b).size === 0;
+  // Padre: el menor de los que lo contienen estrictamente
+  const parent = groups.map((g) => {
+    const containers = groups
+      .map((h, j) => ({ h, j }))
+      .filter(({ h }) => strictlyInside(g.set, h.set));
+    if (containers.length === 0) return -1;
+    return containers.reduce((a, b) => (b.h.set.size < a.h.set.size ? b : a)).j;
+  });
+  const build = (i: number): ContainmentNode => ({
+    names: groups[i].names,
+    size: groups[i].set.size,
+    children: groups.map((_, j) => j).filter((j) => parent[j] === i).map(build),
+  });
+  return groups.map((_, i) => i).filter((i) => parent[i] === -1).map(build);
+}
+
+const sketchColors = [
+  "border-emerald-400/70 bg-emerald-400/10",
+  "border-amber-400/70 bg-amber-400/10",
+  "border-sky-400/70 bg-sky-400/10",
+  "border-rose-400/70 bg-rose-400/10",
+  "border-violet-400/70 bg-violet-400/10",
+];
+
+function SketchNode({ node, depth }: { node: ContainmentNode; depth: number }) {
+  return (
+    <div
+      className={
+        "rounded-2xl border-2 px-3 py-2 min-w-[72px] " + sketchColors[depth % sketchColors.length]
+      }
+    >
+      <div className="text-xs font-semibold text-slate-100">
+        {node.names.join(" = ")} <span className="font-normal text-slate-400">({node.size})</span>
+      </div>
+      {node.children.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {node.children.map((c) => (
+            <SketchNode key={c.names.join()} node={c} depth={depth + 1} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Figuras anidadas = contención; figuras lado a lado que se traslapan se anotan abajo
+export function ContainmentSketch({
+  forest,
+  overlaps,
+}: {
+  forest: ContainmentNode[];
+  overlaps: string[];
+}) {
+  return (
+    <div className="rounded-2xl border-2 border-slate-500/60 p-3">
+      <div className="text-xs font-semibold text-slate-400 mb-2">U</div>
+      <div className="flex flex-wrap gap-2">
+        {forest.map((n) => (
+          <SketchNode key={n.names.join()} node={n} depth={0} />
+        ))}
+      </div>
+      {overlaps.length > 0 && (
+        <p className="mt-2 text-xs text-slate-400">Se traslapan: {overlaps.join(", ")}</p>
+      )}
+    </div>
+  );
+}
+
+export function RelationshipTableView({ rows }: { rows: PairRelation[] }) {
+  const cell = "px-2 py-1 border border-slate-700 text-center";
+  const mark = (v: boolean) => (
+    <span className={v ? "text-emerald-300" : "text-slate-500"}>{v ? "✓" : "·"}</span>
+  );
+  return (
+    <div className="overflow-auto rounded-xl border border-slate-700">
+      <table className="min-w-full border-collapse text-xs">
+        <thead className="bg-slate-900/60">
+          <tr>
+            {["X", "Y", "X ⊆ Y", "X ⊂ Y", "Y ⊆ X", "X = Y", "X ∩ Y = ∅", "Complementos", "Resumen"].map(
+              (h) => (
+                <th key={h} className="px-2 py-1 border border-slate-700 text-slate-200">
+                  {h}
+                </th>
+              )
+            )}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.x + "|" + r.y} className="odd:bg-slate-900/30">
+              <td className={cell + " font-mono text-slate-200"}>{r.x}</td>
+              <td className={cell + " font-mono text-slate-200"}>{r.y}</td>
+              <td className={cell}>{mark(r.subset)}</td>
+              <td className={cell}>{mark(r.subset && !r.equal)}</td>
+              <td className={cell}>{mark(r.superset)}</td>
+              <td className={cell}>{mark(r.equal)}</td>
+              <td className={cell}>{mark(r.disjoint)}</td>
+              <td className={cell}>{mark(r.complementary)}</td>
+              <td className={cell + " font-mono text-slate-300 whitespace-nowrap"}>
+                {describePair(r)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+// ——— Diagnósticos de entrada: avisos con posición y arreglos de un clic ———
+// Los parsers toleran la entrada mal formada (ignoran lo que no entienden);
+// aquí se explica qué se ignoró y dónde, para que no desaparezca en silencio.
+import React from "react";
+import { isSetBuilder, scanListInput } from "./conjuntos";
+import { splitDegree } from "./difusos";
+import { splitMultiplicity } from "./multiconjuntos";
+
+type Elem = string;
+
+export type DiagnosticFix =
+  | { kind: "add-to-universe"; label: string; elems: Elem[] }
+  | { kind: "edit"; label: string; start: number; end: number; text: string };
+
+export type Diagnostic = {
+  severity: "warning" | "error";
+  message: string;
+  start: number;
+  end: number;
+  fix?: DiagnosticFix;
+};
+
+// Borra un tramo junto con el separador que lo sigue (o el que lo precede, si es el último)
+function removalFix(input: string, start: number, end: number, label: string): DiagnosticFix {
+  const after = input.slice(end).match(/^\s*[,;]?\s*/)?.[0] ?? "";
+  if (end + after.length < input.length) {
+    return { kind: "edit", label, start, end: end + after.length, text: "" };
+  }
+  const before = input.slice(0, start).match(/\s*[,;]?\s*$/)?.[0] ?? "";
+  return { kind: "edit", label, start: start - before.length, end: input.length, text: "" };
+}
+
+export function applyEdit(input: string, fix: Extract<DiagnosticFix, { kind: "edit" }>): string {
+  return input.slice(0, fix.start) + fix.text + input.slice(fix.end);
+}
+
+// Agrega elementos al final de una lista (se usa para completar U)
+export function appendElems(input: string, elems: Elem[]): string {
+  const base = input.trimEnd();
+  if (!base) return elems.join(",");
+  return base + (/[,;]$/.test(base) ? "" : ",") + elems.join(",");
+}
+
+// Elementos que faltan en U: un aviso por elemento distinto, en su primera aparición
+function missingFromUniverse(
+  occurrences: { elem: Elem; where: string; start: number; end: number }[],
+  U: Set<Elem>,
+  canFixUniverse: boolean,
+  universeName = "U"
+): Diagnostic[] {
+  const seen = new Set<Elem>();
+  const out: Diagnostic[] = [];
+  for (const o of occurrences) {
+    if (U.has(o.elem) || seen.has(o.elem)) continue;
+    seen.add(o.elem);
+    out.push({
+      severity: "warning",
+      message: `${o.elem} ${o.where} no está en ${universeName}`,
+      start: o.start,
+      end: o.end,
+      fix: canFixUniverse
+        ? { kind: "add-to-universe", label: `Agregar ${o.elem} a U`, elems: [o.elem] }
+        : undefined,
+    });
+  }
+  return out;
+}
+
+// Conjunto con nombre (o U, con name = "U"): elementos repetidos y elementos fuera de U.
+// Con multiconjuntos repetir es válido y "3×2" es el elemento 3; con difusos, "3:0.7" también.
+export function diagnoseSetInput(
+  input: string,
+  name: string,
+  elems: Elem[],
+  U: Set<Elem>,
+  canFixUniverse: boolean,
+  notation: "sets" | "multisets" | "fuzzy" = "sets"
+): Diagnostic[] {
+  const elemOf = (token: Elem) =>
+    notation === "multisets"
+      ? splitMultiplicity(token)[0]
+      : notation === "fuzzy"
+      ? splitDegree(token)[0]
+      : token;
+  if (isSetBuilder(input, notation === "fuzzy")) {
+    // Sus elementos salen del dominio; si este no cabe en U, se señala todo el texto
+    if (name === "U") return [];
+    const occurrences = elems.map((elem) => ({ elem, where: `en ${name}`, start: 0, end: input.length }));
+    return missingFromUniverse(occurrences, U, canFixUniverse);
+  }
+  const { tokens, error } = scanListInput(input);
+  if (error) return []; // el error ya se muestra aparte
+  const out: Diagnostic[] = [];
+  const seen = new Set<Elem>();
+  for (const t of tokens) {
+    if (notation === "sets" && !t.range) {
+      const x = t.elems[0];
+      if (seen.has(x)) {
+        out.push({
+          severity: "warning",
+          message: t.text === x ? `${x} está repetido` : `${t.text} está repetido (es ${x})`,
+          start: t.start,
+          end: t.end,
+          fix: removalFix(input, t.start, t.end, "Quitar repetido"),
+        });
+      }
+    }
+    t.elems.forEach((x) => seen.add(x));
+  }
+  if (name !== "U") {
+    const occurrences = tokens.flatMap((t) =>
+      t.elems.map((elem) => ({
+        elem: elemOf(elem),
+        where: `en ${name}`,
+        start: t.start,
+        end: t.end,
+      }))
+    );
+    out.push(...missingFromUniverse(occurrences, U, canFixUniverse));
+  }
+  return out.sort((a, b) => a.start - b.start);
+}
+
+// Relación como lista de pares "(a,b)": misma lectura que parseRelation.
+// universeName: cómo se llama U en los mensajes (p. ej. "X ∪ Y" para funciones)
+export function diagnoseRelation(
+  input: string,
+  U: Set<Elem>,
+  canFixUniverse: boolean,
+  universeName = "U"
+): Diagnostic[] {
+  const out: Diagnostic[] = [];
+
+  // Paréntesis sin pareja
+  const open: number[] = [];
+  for (let i = 0; i < input.length; i++) {
+    if (input[i] === "(") open.push(i);
+    else if (input[i] === ")") {
+      if (open.length) open.pop();
+      else {
+        out.push({
+          severity: "error",
+          message: "Paréntesis ')' sin abrir",
+          start: i,
+          end: i + 1,
+          fix: { kind: "edit", label: "Quitar ')'", start: i, end: i + 1, text: "" },
+        });
+      }
+    }
+  }
+  open.forEach((i) =>
+    out.push({
+      severity: "error",
+      message: "Paréntesis '(' sin cerrar",
+      start: i,
+      end: input.length,
+      fix:
+        open.length === 1
+          ? {
+              kind: "edit",
+              label: "Cerrar al final",
+              start: input.length,
+              end: input.length,
+              text: ")",
+            }
+          : undefined,
+    })
+  );
+
+  // Cada grupo entre paréntesis debe ser un par
+  const seen = new Set<string>();
+  const occurrences: { elem: Elem; where: string; start: number; end: number }[] = [];
+  let covered = 0;
+  const outside: { start: number; end: number }[] = [];
+  for (const m of input.matchAll(/\(([^)]*)\)/g)) {
+    const start = m.index ?? 0;
+    const end = start + m[0].length;
+    if (start > covered) outside.push({ start: covered, end: start });
+    covered = end;
+    const parts = m[1]
+      .split(",")
+      .map((s) => s.trim())
+      .filter((s) => s.length > 0);
+    if (parts.length < 2) {
+      out.push({
+        severity: "warning",
+        message: `${m[0]} no es un par`,
+        start,
+        end,
+        fix: removalFix(input, start, end, "Quitar"),
+      });
+      continue;
+    }
+    if (parts.length > 2) {
+      out.push({
+        severity: "warning",
+        message: `${m[0]} tiene ${parts.length} componentes; solo se usan las dos primeras`,
+        start,
+        end,
+        fix: {
+          kind: "edit",
+          label: `Dejar (${parts[0]},${parts[1]})`,
+          start,
+          end,
+          text: `(${parts[0]},${parts[1]})`,
+        },
+      });
+    }
+    const key = `(${parts[0]},${parts[1]})`;
+    if (seen.has(key)) {
+      out.push({
+        severity: "warning",
+        message: `Par repetido ${key}`,
+        start,
+        end,
+        fix: removalFix(input, start, end, "Quitar repetido"),
+      });
+    }
+    seen.add(key);
+    parts.slice(0, 2).forEach((elem) => occurrences.push({ elem, where: `en ${key}`, start, end }));
+  }
+  if (covered < input.length) outside.push({ start: covered, end: input.length });
+
+  // Texto que no está dentro de ningún par (p. ej. "1,2" sin paréntesis)
+  for (const gap of outside) {
+    const text = input.slice(gap.start, gap.end);
+    const m = text.match(/[^\s,;()]+(?:[\s,;]*[^\s,;()]+)*/);
+    if (!m) continue;
+    const start = gap.start + (m.index ?? 0);
+    out.push({
+      severity: "warning",
+      message: `"${m[0]}" está fuera de un par y se ignora`,
+      start,
+      end: start + m[0].length,
+    });
+  }
+
+  out.push(...missingFromUniverse(occurrences, U, canFixUniverse, universeName));
+  return out.sort((a, b) => a.start - b.start);
+}
+
+export function DiagnosticsList({
+  input,
+  diagnostics,
+  onFix,
+}: {
+  input: string;
+  diagnostics: Diagnostic[];
+  onFix: (fix: DiagnosticFix) => void;
+}) {
+  if (diagnostics.length === 0) return null;
+  const missing = diagnostics.flatMap((d) =>
+    d.fix?.kind === "add-to-universe" ? d.fix.elems : []
+  );
+  return (
+    <div className="mt-1 rounded-xl border border-amber-400/40 bg-amber-500/10 p-2 text-xs space-y-1">
+      {diagnostics.map((d, i) => (
+        <div key={i} className="flex flex-wrap items-center gap-2">
+          <span className={d.severity === "error" ? "text-rose-300" : "text-amber-300"}>
+            {d.severity === "error" ? "✗" : "⚠"}
+          </span>
+          <span className="text-slate-200">{d.message}</span>
+          <span className="font-mono text-slate-400">
+            {d.end > d.start && d.end - d.start <= 24 ? `“${input.slice(d.start, d.end)}”, ` : ""}
+            posición {d.start + 1}
+          </span>
+          {d.fix && (
+            <button
+              onClick={() => onFix(d.fix!)}
+              className="ml-auto px-2 py-0.5 rounded-full border border-slate-600 text-slate-200 hover:border-emerald-400 hover:text-emerald-300 transition"
+            >
+              {d.fix.label}
+            </button>
+          )}
+        </div>
+      ))}
+      {missing.length > 1 && (
+        <button
+          onClick={() =>
+            onFix({ kind: "add-to-universe", label: "Agregar todos a U", elems: missing })
+          }
+          className="px-2 py-0.5 rounded-full border border-emerald-400/60 text-emerald-300 hover:bg-emerald-500/10 transition"
+        >
+          Agregar los {missing.length} elementos faltantes a U
+        </button>
+      )}
+    </div>
+  );
+}
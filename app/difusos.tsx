@@ -0,0 +1,217 @@
+// ——— Conjuntos difusos: grado de pertenencia μ(x) ∈ [0, 1] ———
+// Intersección = t-norma, unión = t-conorma, complemento = negación (1 − μ por defecto).
+import React from "react";
+import type { ExprError, SetAlgebra } from "./expresiones";
+import { compareElems, isSetBuilder, scanListInput } from "./conjuntos";
+
+type Elem = string;
+
+// Solo se guardan los elementos con grado > 0
+export type FuzzySet = Map<Elem, number>;
+
+const EPS = 1e-9;
+
+// "3:0.7" es el elemento 3 con grado 0.7; sin grado vale 1
+export function splitDegree(token: string): [Elem, number] {
+  const m = token.match(/^(.+?):(.*)$/);
+  return m ? [m[1], Number(m[2])] : [token, 1];
+}
+
+export function parseFuzzyInput(
+  input: string,
+  resolved: Elem[]
+): { set: FuzzySet; error: ExprError | null } {
+  const set: FuzzySet = new Map();
+  // "{a:0.5, b:0.3}" es una lista con grados; solo "{x ∈ D | P(x)}" es constructora
+  if (isSetBuilder(input, true)) {
+    resolved.forEach((x) => set.set(x, 1));
+    return { set, error: null };
+  }
+  const { tokens, error } = scanListInput(input);
+  if (error) return { set, error };
+  for (const t of tokens) {
+    if (t.range) {
+      t.elems.forEach((x) => set.set(x, 1));
+      continue;
+    }
+    const [x, mu] = splitDegree(t.elems[0]);
+    if (!(mu >= 0 && mu <= 1)) {
+      return {
+        set,
+        error: { ok: false, error: `El grado de ${x} debe estar entre 0 y 1`, start: t.start, end: t.end },
+      };
+    }
+    if (mu > 0) set.set(x, mu);
+    else set.delete(x);
+  }
+  return { set, error: null };
+}
+
+export function formatDegree(mu: number): string {
+  return String(Number(mu.toFixed(3)));
+}
+
+export function formatFuzzySet(a: FuzzySet): string[] {
+  return Array.from(a.keys())
+    .sort(compareElems)
+    .map((x) => `${x}:${formatDegree(a.get(x)!)}`);
+}
+
+// ——— t-normas, t-conormas y complementos ———
+export type NormPair = {
+  id: string;
+  name: string;
+  t: (a: number, b: number) => number; // t-norma (intersección)
+  s: (a: number, b: number) => number; // t-conorma (unión)
+};
+
+export const normPairs: NormPair[] = [
+  { id: "standard", name: "Estándar (mín / máx)", t: Math.min, s: Math.max },
+  {
+    id: "product",
+    name: "Producto / suma probabilística",
+    t: (a, b) => a * b,
+    s: (a, b) => a + b - a * b,
+  },
+  {
+    id: "lukasiewicz",
+    name: "Łukasiewicz",
+    t: (a, b) => Math.max(0, a + b - 1),
+    s: (a, b) => Math.min(1, a + b),
+  },
+];
+
+export type FuzzyComplement = { id: string; name: string; c: (a: number) => number };
+
+export const fuzzyComplements: FuzzyComplement[] = [
+  { id: "standard", name: "1 − μ", c: (a) => 1 - a },
+  { id: "sugeno", name: "Sugeno λ = 2: (1 − μ)/(1 + 2μ)", c: (a) => (1 - a) / (1 + 2 * a) },
+  { id: "yager", name: "Yager w = 2: (1 − μ²)^½", c: (a) => Math.sqrt(1 - a * a) },
+];
+
+function pointwise(keys: Iterable<Elem>, f: (x: Elem) => number): FuzzySet {
+  const out: FuzzySet = new Map();
+  for (const x of keys) {
+    const mu = f(x);
+    if (mu > EPS) out.set(x, mu);
+  }
+  return out;
+}
+
+// El complemento se toma sobre los elementos de U (con grado 0 si no aparecen)
+export function fuzzyAlgebra(
+  U: FuzzySet,
+  lookup: (name: string) => FuzzySet | undefined,
+  norms: NormPair,
+  complement: FuzzyComplement
+): SetAlgebra<FuzzySet> {
+  const mu = (a: FuzzySet, x: Elem) => a.get(x) ?? 0;
+  const keys = (a: FuzzySet, b: FuzzySet) => new Set([...a.keys(), ...b.keys()]);
+  const not = (a: FuzzySet) => pointwise(U.keys(), (x) => Math.min(mu(U, x), complement.c(mu(a, x))));
+  return {
+    lookup,
+    universe: U,
+    empty: new Map(),
+    union: (a, b) => pointwise(keys(a, b), (x) => norms.s(mu(a, x), mu(b, x))),
+    intersection: (a, b) => pointwise(keys(a, b), (x) => norms.t(mu(a, x), mu(b, x))),
+    difference: (a, b) => {
+      const nb = not(b);
+      return pointwise(a.keys(), (x) => norms.t(mu(a, x), mu(nb, x)));
+    },
+    complement: not,
+  };
+}
+
+// Corte α: elementos con μ(x) ≥ α, para cada nivel que aparece en el conjunto
+export function alphaCuts(a: FuzzySet): { alpha: number; elems: Elem[] }[] {
+  const levels = Array.from(new Set(Array.from(a.values()).map(formatDegree)))
+    .map(Number)
+    .sort((x, y) => y - x);
+  return levels.map((alpha) => ({
+    alpha,
+    elems: Array.from(a.keys())
+      .filter((x) => a.get(x)! >= alpha - EPS)
+      .sort(compareElems),
+  }));
+}
+
+// De Morgan con una pareja (T, S) y un complemento c, elemento por elemento:
+//   c(S(a, b)) = T(c(a), c(b))   y   c(T(a, b)) = S(c(a), c(b))
+export type FuzzyDeMorgan = {
+  pair: NormPair;
+  unionLaw: { ok: boolean; worst: Elem | null; gap: number };
+  intersectionLaw: { ok: boolean; worst: Elem | null; gap: number };
+};
+
+export function fuzzyDeMorgan(
+  A: FuzzySet,
+  B: FuzzySet,
+  U: Set<Elem>,
+  complement: FuzzyComplement
+): FuzzyDeMorgan[] {
+  const c = complement.c;
+  const check = (f: (a: number, b: number) => number) => {
+    let worst: Elem | null = null;
+    let gap = 0;
+    U.forEach((x) => {
+      const d = Math.abs(f(A.get(x) ?? 0, B.get(x) ?? 0));
+      if (d > gap + EPS) {
+        gap = d;
+        worst = x;
+      }
+    });
+    return { ok: gap < 1e-6, worst, gap };
+  };
+  return normPairs.map((pair) => ({
+    pair,
+    unionLaw: check((a, b) => c(pair.s(a, b)) - pair.t(c(a), c(b))),
+    intersectionLaw: check((a, b) => c(pair.t(a, b)) - pair.s(c(a), c(b))),
+  }));
+}
+
+// ——— UI ———
+
+const barColors = ["bg-emerald-400", "bg-amber-400", "bg-sky-400", "bg-rose-400", "bg-violet-400"];
+
+// Una fila por elemento de U con una barra por conjunto (ancho = grado)
+export function MembershipBars({
+  elems,
+  series,
+}: {
+  elems: Elem[];
+  series: { label: string; set: FuzzySet }[];
+}) {
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex flex-wrap gap-3">
+        {series.map((s, i) => (
+          <span key={s.label} className="inline-flex items-center gap-1 text-slate-300">
+            <span className={"inline-block w-3 h-3 rounded-sm " + barColors[i % barColors.length]} />
+            <span className="font-mono">{s.label}</span>
+          </span>
+        ))}
+      </div>
+      {elems.map((x) => (
+        <div key={x} className="grid grid-cols-[3rem_1fr] items-center gap-2">
+          <span className="font-mono text-slate-200 text-right">{x}</span>
+          <div className="space-y-0.5">
+            {series.map((s, i) => {
+              const mu = s.set.get(x) ?? 0;
+              return (
+                <div key={s.label} className="flex items-center gap-2" title={`μ${s.label}(${x}) = ${formatDegree(mu)}`}>
+                  <div className="h-2 flex-1 rounded bg-slate-900/60 overflow-hidden">
+                    <div
+                      className={"h-full " + barColors[i % barColors.length]}
+                      style={{ width: `${mu * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-10 font-mono text-slate-400">{formatDegree(mu)}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
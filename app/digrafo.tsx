@@ -0,0 +1,237 @@
+// ——— Digrafo de una relación: un nodo por elemento de U y una flecha por par ———
+import React, { useId, useMemo } from "react";
+
+type Elem = string;
+type Pair = [Elem, Elem];
+type Point = { x: number; y: number };
+
+export type DigraphLayout = "circle" | "force";
+
+// Pares que se resaltan: los que están en R y los que faltan (punteados)
+export type DigraphWitness = { present: Pair[]; missing: Pair[] };
+
+const W = 600;
+const H = 380;
+const R_NODE = 16;
+const MARGIN = 48;
+
+function circleLayout(n: number): Point[] {
+  const r = Math.min(W, H) / 2 - MARGIN;
+  return Array.from({ length: n }, (_, i) => {
+    const t = -Math.PI / 2 + (2 * Math.PI * i) / Math.max(n, 1);
+    const s = n > 1 ? r : 0;
+    return { x: W / 2 + s * Math.cos(t), y: H / 2 + s * Math.sin(t) };
+  });
+}
+
+// Fruchterman–Reingold: repulsión entre todos, atracción por arista; parte del círculo,
+// así el resultado es siempre el mismo para la misma relación
+function forceLayout(n: number, edges: [number, number][]): Point[] {
+  const pos = circleLayout(n);
+  if (n < 2) return pos;
+  const k = Math.sqrt(((W - 2 * MARGIN) * (H - 2 * MARGIN)) / n);
+  const iterations = 200;
+  for (let it = 0; it < iterations; it++) {
+    const disp = pos.map(() => ({ x: 0, y: 0 }));
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const dx = pos[i].x - pos[j].x;
+        const dy = pos[i].y - pos[j].y;
+        const d = Math.max(Math.hypot(dx, dy), 0.01);
+        const f = (k * k) / d;
+        disp[i].x += (dx / d) * f;
+        disp[i].y += (dy / d) * f;
+        disp[j].x -= (dx / d) * f;
+        disp[j].y -= (dy / d) * f;
+      }
+    }
+    for (const [i, j] of edges) {
+      if (i === j) continue;
+      const dx = pos[i].x - pos[j].x;
+      const dy = pos[i].y - pos[j].y;
+      const d = Math.max(Math.hypot(dx, dy), 0.01);
+      const f = (d * d) / k;
+      disp[i].x -= (dx / d) * f;
+      disp[i].y -= (dy / d) * f;
+      disp[j].x += (dx / d) * f;
+      disp[j].y += (dy / d) * f;
+    }
+    const temperature = (W / 10) * (1 - it / iterations);
+    pos.forEach((p, i) => {
+      const d = Math.max(Math.hypot(disp[i].x, disp[i].y), 0.01);
+      const step = Math.min(d, temperature);
+      p.x = Math.min(W - MARGIN, Math.max(MARGIN, p.x + (disp[i].x / d) * step));
+      p.y = Math.min(H - MARGIN, Math.max(MARGIN, p.y + (disp[i].y / d) * step));
+    });
+  }
+  return pos;
+}
+
+const rotate = (v: Point, deg: number): Point => {
+  const t = (deg * Math.PI) / 180;
+  return { x: v.x * Math.cos(t) - v.y * Math.sin(t), y: v.x * Math.sin(t) + v.y * Math.cos(t) };
+};
+
+// Trazo de la flecha: lazo para (a,a), curva si también está (b,a), recta en otro caso
+function edgePath(p: Point, q: Point, loop: boolean, curved: boolean, center: Point): string {
+  if (loop) {
+    const len = Math.hypot(p.x - center.x, p.y - center.y);
+    const out =
+      len > 1 ? { x: (p.x - center.x) / len, y: (p.y - center.y) / len } : { x: 0, y: -1 };
+    const at = (deg: number, r: number) => {
+      const v = rotate(out, deg);
+      return `${p.x + v.x * r} ${p.y + v.y * r}`;
+    };
+    const far = R_NODE + 42;
+    return `M ${at(-30, R_NODE)} C ${at(-35, far)} ${at(35, far)} ${at(30, R_NODE + 3)}`;
+  }
+  const dx = q.x - p.x;
+  const dy = q.y - p.y;
+  const d = Math.max(Math.hypot(dx, dy), 0.01);
+  const u = { x: dx / d, y: dy / d };
+  if (!curved) {
+    return `M ${p.x + u.x * R_NODE} ${p.y + u.y * R_NODE} L ${q.x - u.x * (R_NODE + 3)} ${
+      q.y - u.y * (R_NODE + 3)
+    }`;
+  }
+  // Cada sentido se curva hacia su izquierda, así (a,b) y (b,a) no se enciman
+  const c = { x: (p.x + q.x) / 2 + u.y * 28, y: (p.y + q.y) / 2 - u.x * 28 };
+  const toward = (from: Point, r: number) => {
+    const ex = c.x - from.x;
+    const ey = c.y - from.y;
+    const e = Math.max(Math.hypot(ex, ey), 0.01);
+    return `${from.x + (ex / e) * r} ${from.y + (ey / e) * r}`;
+  };
+  return `M ${toward(p, R_NODE)} Q ${c.x} ${c.y} ${toward(q, R_NODE + 3)}`;
+}
+
+const edgeColors = {
+  base: "#94a3b8",
+  out: "#34d399",
+  in: "#38bdf8",
+  witness: "#fb7185",
+  dim: "#475569",
+};
+
+export function RelationDigraph({
+  nodes,
+  pairs,
+  layout,
+  witness,
+  hovered,
+  onHover,
+}: {
+  nodes: Elem[];
+  pairs: Pair[];
+  layout: DigraphLayout;
+  witness?: DigraphWitness | null;
+  hovered: Elem | null;
+  onHover: (node: Elem | null) => void;
+}) {
+  const uid = useId();
+  const index = useMemo(() => new Map(nodes.map((x, i) => [x, i])), [nodes]);
+  // Solo los pares con ambos extremos en U, sin repetir
+  const edges = useMemo(() => {
+    const seen = new Set<string>();
+    return pairs.filter(([a, b]) => {
+      const key = `${a}|||${b}`;
+      if (!index.has(a) || !index.has(b) || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }, [pairs, index]);
+  const positions = useMemo(() => {
+    const idx = edges.map(([a, b]): [number, number] => [index.get(a)!, index.get(b)!]);
+    return layout === "force" ? forceLayout(nodes.length, idx) : circleLayout(nodes.length);
+  }, [layout, nodes, edges, index]);
+
+  const edgeSet = new Set(edges.map(([a, b]) => `${a}|||${b}`));
+  const inWitness = new Set((witness?.present ?? []).map(([a, b]) => `${a}|||${b}`));
+  const center = { x: W / 2, y: H / 2 };
+  const marker = (kind: keyof typeof edgeColors) => `url(#${uid}-arrow-${kind})`;
+
+  const draw = ([a, b]: Pair, kind: keyof typeof edgeColors, dashed: boolean, key: string) => {
+    const p = positions[index.get(a)!];
+    const q = positions[index.get(b)!];
+    if (!p || !q) return null;
+    const curved = a !== b && (edgeSet.has(`${b}|||${a}`) || dashed);
+    return (
+      <path
+        key={key}
+        d={edgePath(p, q, a === b, curved, center)}
+        fill="none"
+        stroke={edgeColors[kind]}
+        strokeWidth={kind === "base" || kind === "dim" ? 1.8 : 2.6}
+        strokeDasharray={dashed ? "6 5" : undefined}
+        markerEnd={marker(kind)}
+      />
+    );
+  };
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full max-w-[720px]">
+      <defs>
+        {(Object.keys(edgeColors) as (keyof typeof edgeColors)[]).map((kind) => (
+          <marker
+            key={kind}
+            id={`${uid}-arrow-${kind}`}
+            viewBox="0 0 10 10"
+            refX="9"
+            refY="5"
+            markerWidth="7"
+            markerHeight="7"
+            orient="auto"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" fill={edgeColors[kind]} />
+          </marker>
+        ))}
+      </defs>
+
+      {edges.map(([a, b], i) => {
+        const key = `${a}|||${b}`;
+        const kind = inWitness.has(key)
+          ? "witness"
+          : hovered === null
+          ? "base"
+          : a === hovered
+          ? "out"
+          : b === hovered
+          ? "in"
+          : "dim";
+        return draw([a, b], kind, false, `e-${i}`);
+      })}
+      {(witness?.missing ?? []).map((pair, i) =>
+        index.has(pair[0]) && index.has(pair[1]) ? draw(pair, "witness", true, `m-${i}`) : null
+      )}
+
+      {nodes.map((x, i) => {
+        const p = positions[i];
+        const active = hovered === x;
+        return (
+          <g
+            key={x}
+            transform={`translate(${p.x},${p.y})`}
+            onMouseEnter={() => onHover(x)}
+            onMouseLeave={() => onHover(null)}
+            className="cursor-pointer"
+          >
+            <circle
+              r={R_NODE}
+              className={
+                active ? "fill-emerald-900 stroke-emerald-300" : "fill-slate-900 stroke-emerald-400"
+              }
+              strokeWidth={active ? 3 : 2}
+            />
+            <text
+              textAnchor="middle"
+              dominantBaseline="central"
+              className="fill-slate-100 text-[12px] pointer-events-none"
+            >
+              {x.length > 4 ? x.slice(0, 3) + "…" : x}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
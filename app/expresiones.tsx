@@ -0,0 +1,423 @@
+// ——— Lenguaje de expresiones de conjuntos ———
+// Gramática (de menor a mayor precedencia):
+//   expr    := term (("∪" | "−" | "△" | "⊎") term)*
+//   term    := factor (("∩" | "×") factor)*
+//   factor  := primary "′"*
+//   primary := NOMBRE | "∅" | "(" expr ")" | "P(" expr ")"
+// Alias ASCII: u → ∪, n → ∩, - o \ → −, ^ → △, * → ×, + → ⊎, ' → ′
+import React from "react";
+
+export type BinaryOp = "union" | "intersection" | "difference" | "symdiff" | "product" | "sum";
+
+export type SetExpr =
+  | { kind: "set"; name: string; start: number; end: number }
+  | { kind: "empty"; start: number; end: number }
+  | { kind: "complement"; arg: SetExpr; start: number; end: number }
+  | { kind: "powerset"; arg: SetExpr; start: number; end: number }
+  | {
+      kind: "binary";
+      op: BinaryOp;
+      left: SetExpr;
+      right: SetExpr;
+      start: number;
+      end: number;
+    };
+
+export type ExprError = { ok: false; error: string; start: number; end: number };
+export type ParseResult = { ok: true; ast: SetExpr } | ExprError;
+export type EvalResult<T> = { ok: true; value: T } | ExprError;
+
+// Operaciones que necesita el evaluador; cada modo (conjuntos, pertenencia, …) da las suyas
+export type SetAlgebra<T> = {
+  lookup: (name: string) => T | undefined;
+  universe: T;
+  empty: T;
+  union: (a: T, b: T) => T;
+  intersection: (a: T, b: T) => T;
+  difference: (a: T, b: T) => T;
+  complement: (a: T) => T;
+  // Opcionales: solo tienen sentido sobre elementos concretos
+  product?: (a: T, b: T) => T;
+  powerSet?: (a: T) => T;
+  // Suma de multiconjuntos (se suman las multiplicidades)
+  sum?: (a: T, b: T) => T;
+};
+
+export const opSymbol: Record<BinaryOp, string> = {
+  union: "∪",
+  intersection: "∩",
+  difference: "−",
+  symdiff: "△",
+  product: "×",
+  sum: "⊎",
+};
+
+// Operadores que ligan como la intersección (más fuerte que ∪, −, △)
+const termOps = new Set<BinaryOp>(["intersection", "product"]);
+
+type Token =
+  | { type: "name"; value: string; start: number; end: number }
+  | { type: "empty"; start: number; end: number }
+  | { type: "op"; op: BinaryOp; start: number; end: number }
+  | { type: "prime"; start: number; end: number }
+  | { type: "lparen"; start: number; end: number }
+  | { type: "rparen"; start: number; end: number }
+  | { type: "eof"; start: number; end: number };
+
+class ExprException extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+  }
+}
+
+const symbolOps: Record<string, BinaryOp> = {
+  "∪": "union",
+  "∩": "intersection",
+  "−": "difference",
+  "-": "difference",
+  "\\": "difference",
+  "△": "symdiff",
+  "Δ": "symdiff",
+  "^": "symdiff",
+  "×": "product",
+  "*": "product",
+  "⊎": "sum",
+  "+": "sum",
+};
+
+// Palabras sueltas que se leen como operador en lugar de nombre de conjunto
+const wordOps: Record<string, BinaryOp> = {
+  u: "union",
+  n: "intersection",
+};
+
+// Un nombre de conjunto debe poder escribirse en una expresión
+export function checkSetName(name: string): string | null {
+  if (!/^[\p{L}_][\p{L}\p{N}_]*$/u.test(name)) {
+    return "Usa letras, dígitos o _ (empezando con letra).";
+  }
+  if (name === "U") return "U está reservado para el universo.";
+  if (wordOps[name]) return `'${name}' es un operador (${opSymbol[wordOps[name]]}).`;
+  return null;
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === "(") {
+      tokens.push({ type: "lparen", start: i, end: i + 1 });
+      i++;
+    } else if (ch === ")") {
+      tokens.push({ type: "rparen", start: i, end: i + 1 });
+      i++;
+    } else if (ch === "′" || ch === "'" || ch === "ᶜ") {
+      tokens.push({ type: "prime", start: i, end: i + 1 });
+      i++;
+    } else if (ch === "∅" || ch === "Ø") {
+      tokens.push({ type: "empty", start: i, end: i + 1 });
+      i++;
+    } else if (ch === "℘") {
+      tokens.push({ type: "name", value: "P", start: i, end: i + 1 });
+      i++;
+    } else if (symbolOps[ch]) {
+      tokens.push({ type: "op", op: symbolOps[ch], start: i, end: i + 1 });
+      i++;
+    } else if (/[\p{L}_]/u.test(ch)) {
+      let j = i + 1;
+      while (j < input.length && /[\p{L}\p{N}_]/u.test(input[j])) j++;
+      const word = input.slice(i, j);
+      if (wordOps[word]) {
+        tokens.push({ type: "op", op: wordOps[word], start: i, end: j });
+      } else {
+        tokens.push({ type: "name", value: word, start: i, end: j });
+      }
+      i = j;
+    } else {
+      throw new ExprException(`Carácter inesperado '${ch}'`, i, i + 1);
+    }
+  }
+  tokens.push({ type: "eof", start: input.length, end: input.length });
+  return tokens;
+}
+
+export function parseSetExpr(input: string): ParseResult {
+  try {
+    const tokens = tokenize(input);
+    let p = 0;
+    const peek = () => tokens[p];
+    const next = () => tokens[p++];
+
+    const parseExpr = (): SetExpr => {
+      let left = parseTerm();
+      for (;;) {
+        const t = peek();
+        if (t.type !== "op" || termOps.has(t.op)) return left;
+        next();
+        const right = parseTerm();
+        left = { kind: "binary", op: t.op, left, right, start: left.start, end: right.end };
+      }
+    };
+
+    const parseTerm = (): SetExpr => {
+      let left = parseFactor();
+      for (;;) {
+        const t = peek();
+        if (t.type !== "op" || !termOps.has(t.op)) return left;
+        next();
+        const right = parseFactor();
+        left = { kind: "binary", op: t.op, left, right, start: left.start, end: right.end };
+      }
+    };
+
+    const parseFactor = (): SetExpr => {
+      let node = parsePrimary();
+      while (peek().type === "prime") {
+        const t = next();
+        node = { kind: "complement", arg: node, start: node.start, end: t.end };
+      }
+      return node;
+    };
+
+    const parsePrimary = (): SetExpr => {
+      const t = next();
+      if (t.type === "name" && t.value === "P" && peek().type === "lparen") {
+        const arg = parsePrimary();
+        return { kind: "powerset", arg, start: t.start, end: arg.end };
+      }
+      if (t.type === "name") return { kind: "set", name: t.value, start: t.start, end: t.end };
+      if (t.type === "empty") return { kind: "empty", start: t.start, end: t.end };
+      if (t.type === "lparen") {
+        const inner = parseExpr();
+        const close = next();
+        if (close.type !== "rparen") {
+          throw new ExprException("Falta ')' para cerrar el paréntesis", t.start, close.end);
+        }
+        return { ...inner, start: t.start, end: close.end };
+      }
+      if (t.type === "eof") {
+        throw new ExprException("La expresión termina antes de tiempo", t.start, t.end);
+      }
+      throw new ExprException("Se esperaba un conjunto o '('", t.start, t.end);
+    };
+
+    const ast = parseExpr();
+    const rest = peek();
+    if (rest.type !== "eof") {
+      throw new ExprException(
+        rest.type === "rparen" ? "')' sin '(' correspondiente" : "Se esperaba un operador",
+        rest.start,
+        rest.end
+      );
+    }
+    return { ok: true, ast };
+  } catch (e) {
+    if (e instanceof ExprException) {
+      return { ok: false, error: e.message, start: e.start, end: e.end };
+    }
+    throw e;
+  }
+}
+
+export function evalSetExpr<T>(ast: SetExpr, alg: SetAlgebra<T>): EvalResult<T> {
+  const go = (node: SetExpr): T => {
+    switch (node.kind) {
+      case "set": {
+        if (node.name === "U") return alg.universe;
+        const v = alg.lookup(node.name);
+        if (v === undefined) {
+          throw new ExprException(`Conjunto desconocido '${node.name}'`, node.start, node.end);
+        }
+        return v;
+      }
+      case "empty":
+        return alg.empty;
+      case "complement":
+        return alg.complement(go(node.arg));
+      case "powerset": {
+        const powerSet = alg.powerSet;
+        if (!powerSet) {
+          throw new ExprException("El conjunto potencia no está disponible aquí", node.start, node.end);
+        }
+        const a = go(node.arg);
+        return at(node, () => powerSet(a));
+      }
+      case "binary": {
+        const l = go(node.left);
+        const r = go(node.right);
+        if (node.op === "union") return alg.union(l, r);
+        if (node.op === "intersection") return alg.intersection(l, r);
+        if (node.op === "difference") return alg.difference(l, r);
+        if (node.op === "product") {
+          const product = alg.product;
+          if (!product) {
+            throw new ExprException("El producto cartesiano no está disponible aquí", node.start, node.end);
+          }
+          return at(node, () => product(l, r));
+        }
+        if (node.op === "sum") {
+          const sum = alg.sum;
+          if (!sum) {
+            throw new ExprException("La suma ⊎ solo se define para multiconjuntos", node.start, node.end);
+          }
+          return sum(l, r);
+        }
+        return alg.union(alg.difference(l, r), alg.difference(r, l));
+      }
+    }
+  };
+  // Los errores de una operación (p. ej. un resultado demasiado grande) se ubican en su nodo
+  const at = (node: SetExpr, f: () => T): T => {
+    try {
+      return f();
+    } catch (e) {
+      if (e instanceof Error && !(e instanceof ExprException)) {
+        throw new ExprException(e.message, node.start, node.end);
+      }
+      throw e;
+    }
+  };
+  try {
+    return { ok: true, value: go(ast) };
+  } catch (e) {
+    if (e instanceof ExprException) {
+      return { ok: false, error: e.message, start: e.start, end: e.end };
+    }
+    throw e;
+  }
+}
+
+// Pertenencia de un elemento que cae en la región `mask` (bit i ⇔ está en names[i])
+export function membershipAlgebra(names: string[], mask: number): SetAlgebra<boolean> {
+  return {
+    lookup: (name) => {
+      const i = names.indexOf(name);
+      return i >= 0 ? (mask & (1 << i)) !== 0 : undefined;
+    },
+    universe: true,
+    empty: false,
+    union: (a, b) => a || b,
+    intersection: (a, b) => a && b,
+    difference: (a, b) => a && !b,
+    complement: (a) => !a,
+  };
+}
+
+// Máscaras de las regiones (de las 2^k) que forman parte del resultado de la expresión;
+// null si la expresión no se puede leer por pertenencia (×, P(·) o ⊎)
+export function regionsOfExpr(ast: SetExpr, names: string[]): Set<number> | null {
+  const out = new Set<number>();
+  for (let mask = 0; mask < 1 << names.length; mask++) {
+    const r = evalSetExpr(ast, membershipAlgebra(names, mask));
+    if (!r.ok) return null;
+    if (r.value) out.add(mask);
+  }
+  return out;
+}
+
+// Nombres de conjunto que aparecen en la expresión (sin U), en orden de aparición
+export function exprVars(node: SetExpr, out: string[] = []): string[] {
+  if (node.kind === "set") {
+    if (node.name !== "U" && !out.includes(node.name)) out.push(node.name);
+  } else if (node.kind === "binary") {
+    exprVars(node.left, out);
+    exprVars(node.right, out);
+  } else if (node.kind === "complement" || node.kind === "powerset") {
+    exprVars(node.arg, out);
+  }
+  return out;
+}
+
+// Texto canónico (símbolos Unicode, paréntesis solo donde hacen falta)
+export function formatSetExpr(node: SetExpr): string {
+  switch (node.kind) {
+    case "set":
+      return node.name;
+    case "empty":
+      return "∅";
+    case "complement": {
+      const inner = formatSetExpr(node.arg);
+      return node.arg.kind === "binary" ? `(${inner})′` : `${inner}′`;
+    }
+    case "powerset":
+      return `P(${formatSetExpr(node.arg)})`;
+    case "binary": {
+      const wrap = (n: SetExpr) =>
+        n.kind === "binary" ? `(${formatSetExpr(n)})` : formatSetExpr(n);
+      return `${wrap(node.left)} ${opSymbol[node.op]} ${wrap(node.right)}`;
+    }
+  }
+}
+
+// ——— UI: árbol sintáctico y error con posición ———
+
+export function ExprTree({
+  node,
+  renderValue,
+}: {
+  node: SetExpr;
+  renderValue?: (node: SetExpr) => React.ReactNode;
+}) {
+  const label =
+    node.kind === "binary"
+      ? opSymbol[node.op]
+      : node.kind === "complement"
+      ? "′"
+      : node.kind === "powerset"
+      ? "P"
+      : formatSetExpr(node);
+  const children =
+    node.kind === "binary"
+      ? [node.left, node.right]
+      : node.kind === "complement" || node.kind === "powerset"
+      ? [node.arg]
+      : [];
+  return (
+    <div className="text-xs">
+      <div className="flex flex-wrap items-center gap-2 py-0.5">
+        <span className="px-2 py-0.5 rounded-md bg-slate-900/60 border border-emerald-400/60 text-emerald-300 font-mono">
+          {label}
+        </span>
+        {children.length > 0 && (
+          <span className="font-mono text-slate-400">{formatSetExpr(node)}</span>
+        )}
+        {renderValue && <span className="text-slate-300">{renderValue(node)}</span>}
+      </div>
+      {children.length > 0 && (
+        <div className="ml-3 pl-3 border-l border-slate-700">
+          {children.map((c, i) => (
+            <ExprTree key={i} node={c} renderValue={renderValue} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ExprErrorView({ input, error }: { input: string; error: ExprError }) {
+  // En entradas de varios renglones solo se muestra el renglón del error
+  const lineStart = input.lastIndexOf("\n", error.start - 1) + 1;
+  const lineEnd = input.indexOf("\n", error.start);
+  const line = input.slice(lineStart, lineEnd < 0 ? input.length : lineEnd);
+  const col = error.start - lineStart;
+  const width = Math.max(1, Math.min(error.end, lineStart + line.length) - error.start);
+  return (
+    <div className="rounded-xl border border-rose-400/60 bg-rose-500/10 p-3 text-xs">
+      <p className="text-rose-300 mb-1">
+        {error.error} (posición {col + 1})
+      </p>
+      <pre className="font-mono text-slate-200 whitespace-pre overflow-auto">
+        {line}
+        {"\n"}
+        <span className="text-rose-300">
+          {" ".repeat(col) + "^".repeat(width)}
+        </span>
+      </pre>
+    </div>
+  );
+}
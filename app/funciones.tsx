@@ -0,0 +1,227 @@
+// ——— Funciones entre dos conjuntos: R ⊆ X × Y como función f : X → Y ———
+import React, { useId } from "react";
+import { compareElems, uniq } from "./conjuntos";
+
+type Elem = string;
+type Pair = [Elem, Elem];
+
+const pairKey = (a: Elem, b: Elem) => `${a}|||${b}`;
+
+export type FunctionReport = {
+  outside: Pair[]; // pares que no están en X × Y
+  domain: Elem[];
+  range: Elem[];
+  isFunction: boolean;
+  undefinedAt: Elem[]; // x ∈ X sin imagen
+  multiValued: { x: Elem; ys: Elem[] }[]; // x con más de una imagen
+  injective: boolean;
+  collisions: { y: Elem; xs: Elem[] }[]; // y con más de una preimagen
+  surjective: boolean;
+  unreached: Elem[]; // y ∈ Y que no son imagen de nadie
+  bijective: boolean;
+};
+
+// Solo se analizan los pares dentro de X × Y; los demás se reportan aparte
+export function analyzeFunction(X: Elem[], Y: Elem[], pairs: Pair[]): FunctionReport {
+  const inX = new Set(X);
+  const inY = new Set(Y);
+  const seen = new Set<string>();
+  const inside: Pair[] = [];
+  const outside: Pair[] = [];
+  for (const [a, b] of pairs) {
+    if (seen.has(pairKey(a, b))) continue;
+    seen.add(pairKey(a, b));
+    (inX.has(a) && inY.has(b) ? inside : outside).push([a, b]);
+  }
+  const images = new Map<Elem, Elem[]>(X.map((x) => [x, []]));
+  const preimages = new Map<Elem, Elem[]>(Y.map((y) => [y, []]));
+  for (const [a, b] of inside) {
+    images.get(a)!.push(b);
+    preimages.get(b)!.push(a);
+  }
+  const undefinedAt = X.filter((x) => images.get(x)!.length === 0);
+  const multiValued = X.filter((x) => images.get(x)!.length > 1).map((x) => ({
+    x,
+    ys: images.get(x)!,
+  }));
+  const collisions = Y.filter((y) => preimages.get(y)!.length > 1).map((y) => ({
+    y,
+    xs: preimages.get(y)!,
+  }));
+  const unreached = Y.filter((y) => preimages.get(y)!.length === 0);
+  const isFunction = outside.length === 0 && undefinedAt.length === 0 && multiValued.length === 0;
+  return {
+    outside,
+    domain: X.filter((x) => images.get(x)!.length > 0),
+    range: Y.filter((y) => preimages.get(y)!.length > 0),
+    isFunction,
+    undefinedAt,
+    multiValued,
+    injective: collisions.length === 0,
+    collisions,
+    surjective: unreached.length === 0,
+    unreached,
+    bijective: isFunction && collisions.length === 0 && unreached.length === 0,
+  };
+}
+
+// f(A) = { y | (x,y) ∈ R para algún x ∈ A }
+export function imageOf(pairs: Pair[], A: Elem[]): Elem[] {
+  const inA = new Set(A);
+  return uniq(pairs.filter(([a]) => inA.has(a)).map(([, b]) => b)).sort(compareElems);
+}
+
+// f⁻¹(B) = { x | (x,y) ∈ R para algún y ∈ B }
+export function preimageOf(pairs: Pair[], B: Elem[]): Elem[] {
+  const inB = new Set(B);
+  return uniq(pairs.filter(([, b]) => inB.has(b)).map(([a]) => a)).sort(compareElems);
+}
+
+export function inverseRelation(pairs: Pair[]): Pair[] {
+  return pairs.map(([a, b]): Pair => [b, a]);
+}
+
+// g ∘ f = { (x,z) | (x,y) ∈ f y (y,z) ∈ g }
+export function composeRelations(f: Pair[], g: Pair[]): Pair[] {
+  const seen = new Set<string>();
+  const out: Pair[] = [];
+  for (const [x, y] of f) {
+    for (const [y2, z] of g) {
+      if (y !== y2 || seen.has(pairKey(x, z))) continue;
+      seen.add(pairKey(x, z));
+      out.push([x, z]);
+    }
+  }
+  return out;
+}
+
+export function formatPairs(pairs: Pair[]): string {
+  return pairs.map(([a, b]) => `(${a},${b})`).join(",");
+}
+
+// ——— UI ———
+
+const COL_GAP = 220;
+const ROW_GAP = 36;
+const TOP = 44;
+
+// Diagrama de flechas: columnas de nodos (X, Y, Z…) y maps[i] va de la columna i a la i + 1.
+// marked: elementos resaltados por columna; warn / warnElems: testigos en rojo (pares de
+// maps[0] y elementos por columna)
+export function ArrowDiagram({
+  columns,
+  maps,
+  marked,
+  warn,
+  warnElems,
+}: {
+  columns: { name: string; elems: Elem[] }[];
+  maps: Pair[][];
+  marked?: Elem[][];
+  warn?: Pair[];
+  warnElems?: Elem[][];
+}) {
+  const uid = useId();
+  const rows = Math.max(1, ...columns.map((c) => c.elems.length));
+  const height = TOP + rows * ROW_GAP + 16;
+  const width = 80 + (columns.length - 1) * COL_GAP + 80;
+  const pos = (col: number, i: number, n: number) => ({
+    x: 80 + col * COL_GAP,
+    y: TOP + ROW_GAP / 2 + i * ROW_GAP + ((rows - n) * ROW_GAP) / 2,
+  });
+  const warned = new Set((warn ?? []).map(([a, b]) => pairKey(a, b)));
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full max-w-[720px]">
+      <defs>
+        {["base", "warn"].map((kind) => (
+          <marker
+            key={kind}
+            id={`${uid}-${kind}`}
+            viewBox="0 0 10 10"
+            refX="9"
+            refY="5"
+            markerWidth="7"
+            markerHeight="7"
+            orient="auto"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" fill={kind === "warn" ? "#fb7185" : "#94a3b8"} />
+          </marker>
+        ))}
+      </defs>
+      {columns.map((c, col) => {
+        const top = pos(col, 0, c.elems.length).y - ROW_GAP / 2;
+        return (
+          <g key={c.name}>
+            <text
+              x={80 + col * COL_GAP}
+              y={22}
+              textAnchor="middle"
+              className="fill-slate-300 text-[13px] font-semibold"
+            >
+              {c.name}
+            </text>
+            <rect
+              x={80 + col * COL_GAP - 32}
+              y={top - 4}
+              width={64}
+              height={Math.max(c.elems.length, 1) * ROW_GAP + 8}
+              rx={28}
+              className="fill-slate-900/40 stroke-slate-600"
+            />
+          </g>
+        );
+      })}
+      {maps.map((pairs, col) => {
+        const from = columns[col];
+        const to = columns[col + 1];
+        if (!from || !to) return null;
+        return pairs.map(([a, b], k) => {
+          const i = from.elems.indexOf(a);
+          const j = to.elems.indexOf(b);
+          if (i < 0 || j < 0) return null;
+          const p = pos(col, i, from.elems.length);
+          const q = pos(col + 1, j, to.elems.length);
+          const bad = col === 0 && warned.has(pairKey(a, b));
+          return (
+            <line
+              key={`${col}-${k}`}
+              x1={p.x + 14}
+              y1={p.y}
+              x2={q.x - 16}
+              y2={q.y}
+              stroke={bad ? "#fb7185" : "#94a3b8"}
+              strokeWidth={bad ? 2.4 : 1.6}
+              markerEnd={`url(#${uid}-${bad ? "warn" : "base"})`}
+            />
+          );
+        });
+      })}
+      {columns.map((c, col) =>
+        c.elems.map((x, i) => {
+          const p = pos(col, i, c.elems.length);
+          const on = marked?.[col]?.includes(x);
+          const bad = warnElems?.[col]?.includes(x);
+          return (
+            <g key={`${col}-${x}`} transform={`translate(${p.x},${p.y})`}>
+              <circle
+                r={13}
+                className={
+                  (on ? "fill-amber-400/30 " : "fill-slate-900 ") +
+                  (bad ? "stroke-rose-400" : on ? "stroke-amber-300" : "stroke-emerald-400")
+                }
+                strokeWidth={2}
+              />
+              <text
+                textAnchor="middle"
+                dominantBaseline="central"
+                className="fill-slate-100 text-[11px] pointer-events-none"
+              >
+                {x.length > 4 ? x.slice(0, 3) + "…" : x}
+              </text>
+            </g>
+          );
+        })
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,130 @@
+// ——— Identidades de conjuntos: verificación concreta y por tabla de pertenencia ———
+import React from "react";
+import {
+  evalSetExpr,
+  exprVars,
+  membershipAlgebra,
+  parseSetExpr,
+  type ExprError,
+  type SetExpr,
+} from "./expresiones";
+
+export type Identity = { lhs: SetExpr; rhs: SetExpr; vars: string[] };
+
+// Leyes clásicas para elegir desde la biblioteca
+export const identityLaws: { name: string; text: string }[] = [
+  { name: "De Morgan (unión)", text: "(A ∪ B)′ = A′ ∩ B′" },
+  { name: "De Morgan (intersección)", text: "(A ∩ B)′ = A′ ∪ B′" },
+  { name: "Distributiva de ∩ sobre ∪", text: "A ∩ (B ∪ C) = (A ∩ B) ∪ (A ∩ C)" },
+  { name: "Distributiva de ∪ sobre ∩", text: "A ∪ (B ∩ C) = (A ∪ B) ∩ (A ∪ C)" },
+  { name: "Asociativa de ∪", text: "(A ∪ B) ∪ C = A ∪ (B ∪ C)" },
+  { name: "Asociativa de ∩", text: "(A ∩ B) ∩ C = A ∩ (B ∩ C)" },
+  { name: "Conmutativa de ∪", text: "A ∪ B = B ∪ A" },
+  { name: "Conmutativa de ∩", text: "A ∩ B = B ∩ A" },
+  { name: "Absorción (∪)", text: "A ∪ (A ∩ B) = A" },
+  { name: "Absorción (∩)", text: "A ∩ (A ∪ B) = A" },
+  { name: "Idempotencia", text: "A ∪ A = A" },
+  { name: "Doble complemento", text: "A′′ = A" },
+  { name: "Complemento (∪)", text: "A ∪ A′ = U" },
+  { name: "Complemento (∩)", text: "A ∩ A′ = ∅" },
+  { name: "Identidad (∪)", text: "A ∪ ∅ = A" },
+  { name: "Identidad (∩)", text: "A ∩ U = A" },
+  { name: "Dominación", text: "A ∪ U = U" },
+  { name: "Diferencia", text: "A − B = A ∩ B′" },
+  { name: "Diferencia simétrica", text: "A △ B = (A − B) ∪ (B − A)" },
+  { name: "Diferencia simétrica (otra forma)", text: "A △ B = (A ∪ B) − (A ∩ B)" },
+];
+
+export function parseIdentity(input: string): { ok: true; identity: Identity } | ExprError {
+  const eq = input.indexOf("=");
+  if (eq < 0) {
+    return { ok: false, error: "Falta '=' entre los dos lados", start: input.length, end: input.length };
+  }
+  const second = input.indexOf("=", eq + 1);
+  if (second >= 0) {
+    return { ok: false, error: "Solo puede haber un '='", start: second, end: second + 1 };
+  }
+  const lhs = parseSetExpr(input.slice(0, eq));
+  if (!lhs.ok) return lhs;
+  const rhs = parseSetExpr(input.slice(eq + 1));
+  if (!rhs.ok) return { ...rhs, start: rhs.start + eq + 1, end: rhs.end + eq + 1 };
+  const vars = exprVars(rhs.ast, exprVars(lhs.ast));
+  return { ok: true, identity: { lhs: lhs.ast, rhs: rhs.ast, vars } };
+}
+
+export type MembershipRow = { mask: number; lhs: boolean; rhs: boolean };
+
+// Una fila por región (2^k): la identidad vale para todo conjunto ⇔ coinciden en todas.
+// null si algún lado usa × o P(·), que no se deciden por pertenencia.
+export function membershipTable(id: Identity): MembershipRow[] | null {
+  const rows: MembershipRow[] = [];
+  for (let mask = 0; mask < 1 << id.vars.length; mask++) {
+    const alg = membershipAlgebra(id.vars, mask);
+    const l = evalSetExpr(id.lhs, alg);
+    const r = evalSetExpr(id.rhs, alg);
+    if (!l.ok || !r.ok) return null;
+    rows.push({ mask, lhs: l.value, rhs: r.value });
+  }
+  return rows;
+}
+
+export function describeRegion(mask: number, vars: string[]): string {
+  if (vars.length === 0) return "x ∈ U";
+  return vars.map((v, i) => (mask & (1 << i) ? `x ∈ ${v}` : `x ∉ ${v}`)).join(", ");
+}
+
+// Contraejemplo mínimo: un universo de un solo elemento x ubicado en la región
+export function counterexampleSets(mask: number, vars: string[]): string {
+  return ["U = {x}", ...vars.map((v, i) => `${v} = ${mask & (1 << i) ? "{x}" : "∅"}`)].join(", ");
+}
+
+export function MembershipTableView({
+  vars,
+  rows,
+  lhsLabel,
+  rhsLabel,
+}: {
+  vars: string[];
+  rows: MembershipRow[];
+  lhsLabel: string;
+  rhsLabel: string;
+}) {
+  const cell = "px-2 py-1 border border-slate-700 text-center font-mono";
+  return (
+    <div className="overflow-auto rounded-xl border border-slate-700">
+      <table className="min-w-full border-collapse text-xs">
+        <thead className="bg-slate-900/60">
+          <tr>
+            {vars.map((v) => (
+              <th key={v} className="px-2 py-1 border border-slate-700 text-slate-200">
+                {v}
+              </th>
+            ))}
+            <th className="px-2 py-1 border border-slate-700 text-slate-200">{lhsLabel}</th>
+            <th className="px-2 py-1 border border-slate-700 text-slate-200">{rhsLabel}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr
+              key={r.mask}
+              className={r.lhs !== r.rhs ? "bg-rose-500/15" : "odd:bg-slate-900/30"}
+            >
+              {vars.map((v, i) => (
+                <td key={v} className={cell + " text-slate-300"}>
+                  {r.mask & (1 << i) ? 1 : 0}
+                </td>
+              ))}
+              <td className={cell + (r.lhs ? " text-emerald-300" : " text-slate-300")}>
+                {r.lhs ? 1 : 0}
+              </td>
+              <td className={cell + (r.rhs ? " text-emerald-300" : " text-slate-300")}>
+                {r.rhs ? 1 : 0}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
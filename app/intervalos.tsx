@@ -0,0 +1,365 @@
+// ——— Intervalos reales: uniones de intervalos como [0,3) ∪ (5,∞) ———
+// Un conjunto es una lista ordenada de intervalos ajenos y no contiguos (forma normal),
+// así dos conjuntos iguales se escriben igual y se pueden comparar elemento a elemento.
+import React from "react";
+import type { ExprError, SetAlgebra } from "./expresiones";
+
+// Los extremos infinitos siempre son abiertos; un punto aislado es [a,a]
+export type Interval = { lo: number; hi: number; loClosed: boolean; hiClosed: boolean };
+export type IntervalSet = Interval[];
+
+export const realLine: IntervalSet = [
+  { lo: -Infinity, hi: Infinity, loClosed: false, hiClosed: false },
+];
+
+function isEmptyInterval(i: Interval): boolean {
+  return i.lo > i.hi || (i.lo === i.hi && !(i.loClosed && i.hiClosed));
+}
+
+// Ordena, descarta los vacíos y junta los que se traslapan o se tocan ([0,1) ∪ [1,2] = [0,2])
+export function normalizeIntervals(list: Interval[]): IntervalSet {
+  const sorted = list
+    .filter((i) => !isEmptyInterval(i))
+    .sort((a, b) => a.lo - b.lo || Number(b.loClosed) - Number(a.loClosed));
+  const out: IntervalSet = [];
+  for (const i of sorted) {
+    const last = out[out.length - 1];
+    const touches =
+      last && (i.lo < last.hi || (i.lo === last.hi && (last.hiClosed || i.loClosed)));
+    if (!touches) {
+      out.push({ ...i });
+      continue;
+    }
+    if (i.hi > last.hi) {
+      last.hi = i.hi;
+      last.hiClosed = i.hiClosed;
+    } else if (i.hi === last.hi) {
+      last.hiClosed = last.hiClosed || i.hiClosed;
+    }
+  }
+  return out;
+}
+
+export function intervalUnion(a: IntervalSet, b: IntervalSet): IntervalSet {
+  return normalizeIntervals([...a, ...b]);
+}
+
+export function intervalIntersection(a: IntervalSet, b: IntervalSet): IntervalSet {
+  const out: Interval[] = [];
+  for (const x of a) {
+    for (const y of b) {
+      const lo = Math.max(x.lo, y.lo);
+      const hi = Math.min(x.hi, y.hi);
+      // En un empate el extremo es cerrado solo si lo es en los dos
+      const loClosed =
+        x.lo === y.lo ? x.loClosed && y.loClosed : x.lo > y.lo ? x.loClosed : y.loClosed;
+      const hiClosed =
+        x.hi === y.hi ? x.hiClosed && y.hiClosed : x.hi < y.hi ? x.hiClosed : y.hiClosed;
+      out.push({ lo, hi, loClosed, hiClosed });
+    }
+  }
+  return normalizeIntervals(out);
+}
+
+// Complemento en ℝ: los huecos entre intervalos, con los extremos invertidos
+export function realComplement(a: IntervalSet): IntervalSet {
+  const out: Interval[] = [];
+  let lo = -Infinity;
+  let loClosed = false;
+  for (const i of a) {
+    out.push({ lo, hi: i.lo, loClosed, hiClosed: !i.loClosed && i.lo !== -Infinity });
+    lo = i.hi;
+    loClosed = !i.hiClosed && i.hi !== Infinity;
+  }
+  out.push({ lo, hi: Infinity, loClosed, hiClosed: false });
+  return normalizeIntervals(out.filter((i) => i.lo !== Infinity && i.hi !== -Infinity));
+}
+
+export function intervalDifference(a: IntervalSet, b: IntervalSet): IntervalSet {
+  return intervalIntersection(a, realComplement(b));
+}
+
+export function intervalEquals(a: IntervalSet, b: IntervalSet): boolean {
+  return (
+    a.length === b.length &&
+    a.every(
+      (x, k) =>
+        x.lo === b[k].lo &&
+        x.hi === b[k].hi &&
+        x.loClosed === b[k].loClosed &&
+        x.hiClosed === b[k].hiClosed
+    )
+  );
+}
+
+// Longitud total (medida); puede ser ∞
+export function intervalLength(a: IntervalSet): number {
+  return a.reduce((acc, i) => acc + (i.hi - i.lo), 0);
+}
+
+// Complemento respecto a U; no hay producto ni potencia sobre ℝ
+export function intervalAlgebra(
+  U: IntervalSet,
+  lookup: (name: string) => IntervalSet | undefined
+): SetAlgebra<IntervalSet> {
+  return {
+    lookup,
+    universe: U,
+    empty: [],
+    union: intervalUnion,
+    intersection: intervalIntersection,
+    difference: intervalDifference,
+    complement: (a) => intervalDifference(U, a),
+  };
+}
+
+// ——— Entrada y formato ———
+// Acepta [a,b], (a,b), [a,b), (a,b], puntos sueltos (2 o {2, 5}), ℝ y ∅,
+// separados por ∪, "u", coma o espacios. ∞ también se escribe inf.
+const numberPattern = "[-−+]?(?:∞|inf|\\d+(?:\\.\\d+)?|\\.\\d+)";
+const intervalRe = new RegExp(
+  `^([\\[(])\\s*(${numberPattern})\\s*[,;]\\s*(${numberPattern})\\s*([\\])])`,
+  "i"
+);
+const numberRe = new RegExp(`^${numberPattern}`, "i");
+
+function toNumber(text: string): number {
+  const t = text.replace("−", "-").toLowerCase();
+  if (/^[-+]?(∞|inf)$/.test(t)) return t.startsWith("-") ? -Infinity : Infinity;
+  return Number(t);
+}
+
+export function parseIntervalInput(
+  input: string
+): { ok: true; value: IntervalSet } | ExprError {
+  const parts: Interval[] = [];
+  const fail = (error: string, start: number, end: number): ExprError => ({
+    ok: false,
+    error,
+    start,
+    end,
+  });
+  let pos = 0;
+  while (pos < input.length) {
+    const rest = input.slice(pos);
+    const sep = rest.match(/^(?:\s+|∪|u(?![a-z])|,|;)/i);
+    if (sep) {
+      pos += sep[0].length;
+      continue;
+    }
+    if (/^(ℝ|R(?![a-z]))/i.test(rest)) {
+      parts.push(...realLine);
+      pos += 1;
+      continue;
+    }
+    if (rest.startsWith("∅")) {
+      pos += 1;
+      continue;
+    }
+
+    const m = rest.match(intervalRe);
+    if (m) {
+      const end = pos + m[0].length;
+      const lo = toNumber(m[2]);
+      const hi = toNumber(m[3]);
+      const loClosed = m[1] === "[";
+      const hiClosed = m[4] === "]";
+      if ((loClosed && !Number.isFinite(lo)) || (hiClosed && !Number.isFinite(hi))) {
+        return fail("Un extremo infinito debe ser abierto: usa ( o )", pos, end);
+      }
+      if (lo > hi) {
+        return fail(`El extremo izquierdo ${m[2]} es mayor que el derecho ${m[3]}`, pos, end);
+      }
+      parts.push({ lo, hi, loClosed, hiClosed });
+      pos = end;
+      continue;
+    }
+
+    if (rest.startsWith("{")) {
+      const close = rest.indexOf("}");
+      if (close < 0) return fail("Falta cerrar la llave }", pos, input.length);
+      const body = rest.slice(1, close);
+      let offset = pos + 1;
+      for (const piece of body.split(",")) {
+        const text = piece.trim();
+        const at = offset + piece.indexOf(text);
+        offset += piece.length + 1;
+        if (!text) continue;
+        const x = toNumber(text);
+        if (!numberRe.test(text) || !Number.isFinite(x)) {
+          return fail(`${text} no es un número real`, at, at + text.length);
+        }
+        parts.push({ lo: x, hi: x, loClosed: true, hiClosed: true });
+      }
+      pos += close + 1;
+      continue;
+    }
+
+    const n = rest.match(numberRe);
+    if (n && Number.isFinite(toNumber(n[0]))) {
+      const x = toNumber(n[0]);
+      parts.push({ lo: x, hi: x, loClosed: true, hiClosed: true });
+      pos += n[0].length;
+      continue;
+    }
+
+    const word = rest.match(/^[^\s,;∪]+/)?.[0] ?? rest[0];
+    return fail(
+      /^[[(]/.test(word)
+        ? "Intervalo mal formado: se espera [a,b], (a,b), [a,b) o (a,b]"
+        : `${word} no es un número ni un intervalo`,
+      pos,
+      pos + word.length
+    );
+  }
+  return { ok: true, value: normalizeIntervals(parts) };
+}
+
+export function formatEndpoint(x: number): string {
+  if (x === Infinity) return "∞";
+  if (x === -Infinity) return "−∞";
+  return String(Number(x.toFixed(6))).replace("-", "−");
+}
+
+// Un texto por pieza; los puntos aislados seguidos se agrupan en una llave: {1, 2}
+export function formatIntervalParts(a: IntervalSet): string[] {
+  const out: string[] = [];
+  let points: string[] = [];
+  const flush = () => {
+    if (points.length) out.push(`{${points.join(", ")}}`);
+    points = [];
+  };
+  for (const i of a) {
+    if (i.lo === i.hi) {
+      points.push(formatEndpoint(i.lo));
+      continue;
+    }
+    flush();
+    out.push(
+      `${i.loClosed ? "[" : "("}${formatEndpoint(i.lo)}, ${formatEndpoint(i.hi)}${
+        i.hiClosed ? "]" : ")"
+      }`
+    );
+  }
+  flush();
+  return out;
+}
+
+export function formatIntervalSet(a: IntervalSet): string {
+  if (a.length === 0) return "∅";
+  if (intervalEquals(a, realLine)) return "ℝ";
+  return formatIntervalParts(a).join(" ∪ ");
+}
+
+// ——— UI: recta numérica ———
+const W = 560;
+const LABEL_W = 90;
+const ROW_H = 30;
+const lineColors = ["#34d399", "#fbbf24", "#38bdf8", "#fb7185", "#a78bfa"];
+
+// Una fila por conjunto sobre un eje común; extremos cerrados rellenos, abiertos huecos
+// y flecha cuando el intervalo sigue hasta ±∞
+export function NumberLine({
+  rows,
+}: {
+  rows: { label: string; set: IntervalSet; highlight?: boolean }[];
+}) {
+  const finite = Array.from(
+    new Set(
+      rows.flatMap((r) => r.set.flatMap((i) => [i.lo, i.hi])).filter((x) => Number.isFinite(x))
+    )
+  ).sort((a, b) => a - b);
+  const min = finite.length ? finite[0] : -1;
+  const max = finite.length ? finite[finite.length - 1] : 1;
+  const pad = Math.max(1, (max - min) * 0.12);
+  const from = min - pad;
+  const to = max + pad;
+  const x0 = LABEL_W;
+  const x1 = W - 16;
+  const sx = (x: number) =>
+    x === -Infinity ? x0 : x === Infinity ? x1 : x0 + ((x - from) / (to - from)) * (x1 - x0);
+  const H = rows.length * ROW_H + 40;
+  const axisY = rows.length * ROW_H + 10;
+  // Con muchos extremos solo se rotulan algunos para que no se encimen
+  const step = Math.ceil(finite.length / 12);
+  const ticks = finite.filter((_, k) => k % step === 0 || k === finite.length - 1);
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full max-w-[720px]">
+      {finite.map((x) => (
+        <line
+          key={"g" + x}
+          x1={sx(x)}
+          x2={sx(x)}
+          y1={8}
+          y2={axisY}
+          className="stroke-slate-600/50"
+          strokeDasharray="3 4"
+        />
+      ))}
+
+      {rows.map((r, k) => {
+        const y = k * ROW_H + 22;
+        const color = lineColors[k % lineColors.length];
+        return (
+          <g key={r.label + k}>
+            <text
+              x={LABEL_W - 10}
+              y={y + 4}
+              textAnchor="end"
+              className={
+                "text-[13px] font-mono " +
+                (r.highlight ? "fill-emerald-300 font-semibold" : "fill-slate-300")
+              }
+            >
+              {r.label.length > 12 ? r.label.slice(0, 11) + "…" : r.label}
+            </text>
+            <line x1={x0} x2={x1} y1={y} y2={y} className="stroke-slate-700" strokeWidth={1} />
+            {r.set.map((i, j) => {
+              const a = sx(i.lo);
+              const b = sx(i.hi);
+              return (
+                <g key={j}>
+                  {i.lo !== i.hi && (
+                    <line x1={a} x2={b} y1={y} y2={y} stroke={color} strokeWidth={5} />
+                  )}
+                  {i.lo === -Infinity && (
+                    <path d={`M ${a - 2} ${y} l 9 -6 v 12 z`} fill={color} />
+                  )}
+                  {i.hi === Infinity && <path d={`M ${b + 2} ${y} l -9 -6 v 12 z`} fill={color} />}
+                  {[
+                    [i.lo, a, i.loClosed],
+                    [i.hi, b, i.hiClosed],
+                  ].map(([v, cx, closed], e) =>
+                    Number.isFinite(v) ? (
+                      <circle
+                        key={e}
+                        cx={cx as number}
+                        cy={y}
+                        r={5}
+                        stroke={color}
+                        strokeWidth={2}
+                        className={closed ? undefined : "fill-slate-900"}
+                        fill={closed ? color : undefined}
+                      />
+                    ) : null
+                  )}
+                </g>
+              );
+            })}
+          </g>
+        );
+      })}
+
+      <line x1={x0} x2={x1} y1={axisY} y2={axisY} className="stroke-slate-400" strokeWidth={1.5} />
+      {ticks.map((x) => (
+        <g key={"t" + x}>
+          <line x1={sx(x)} x2={sx(x)} y1={axisY - 4} y2={axisY + 4} className="stroke-slate-400" />
+          <text x={sx(x)} y={axisY + 18} textAnchor="middle" className="fill-slate-400 text-[11px]">
+            {formatEndpoint(x)}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
@@ -1,3 +1,5 @@
+import React, { useRef, useState } from "react";
+
 type Elem = string;
 type Pair = [Elem, Elem];
 
@@ -25,20 +27,127 @@ export function buildAdjacencyMatrix(Uarr: Elem[], covers: Pair[]): number[][] {
   return A;
 }
 
+// ——— Edición de la matriz (operaciones por fila, columna o diagonal) ———
+const mapCells = (M: number[][], f: (v: number, i: number, j: number) => number) =>
+  M.map((row, i) => row.map((v, j) => f(v, i, j)));
+
+type MatrixAction = {
+  id: string;
+  label: (row: Elem, col: Elem) => string;
+  apply: (M: number[][], row: number, col: number) => number[][];
+};
+
+const matrixActions: MatrixAction[] = [
+  {
+    id: "diagonal",
+    label: () => "Llenar diagonal",
+    apply: (M) => mapCells(M, (v, i, j) => (i === j ? 1 : v)),
+  },
+  { id: "transpose", label: () => "Transponer", apply: (M) => mapCells(M, (_, i, j) => M[j][i]) },
+  {
+    id: "fill-row",
+    label: (r) => `Llenar fila ${r}`,
+    apply: (M, ci) => mapCells(M, (v, i) => (i === ci ? 1 : v)),
+  },
+  {
+    id: "clear-row",
+    label: (r) => `Vaciar fila ${r}`,
+    apply: (M, ci) => mapCells(M, (v, i) => (i === ci ? 0 : v)),
+  },
+  {
+    id: "clear-col",
+    label: (_, c) => `Vaciar columna ${c}`,
+    apply: (M, _, cj) => mapCells(M, (v, i, j) => (j === cj ? 0 : v)),
+  },
+  { id: "clear", label: () => "Vaciar todo", apply: (M) => mapCells(M, () => 0) },
+];
+
+// highlight: celdas a resaltar (p. ej. pares agregados); missing: pares que faltan en R;
+// pivot: fila y columna marcadas; diff: pares agregados (verde) y quitados (rojo).
+// onChange: la tabla se vuelve editable; un clic o Espacio alterna la celda, las flechas
+// mueven el cursor y las acciones por fila/columna usan la celda del cursor. irreflexive: la
+// diagonal queda siempre en 0 y no se ofrece "Llenar diagonal" (p. ej. cubiertas de Hasse)
 export function MatrixTable({
   labels,
   data,
   title,
+  highlight,
+  missing,
+  pivot,
+  diff,
+  irreflexive,
+  onChange,
 }: {
   labels: Elem[];
   data: number[][];
   title?: string;
+  highlight?: [number, number][];
+  missing?: [number, number][];
+  pivot?: number;
+  diff?: { added: [number, number][]; removed: [number, number][] };
+  irreflexive?: boolean;
+  onChange?: (next: number[][]) => void;
 }) {
+  const marked = new Set((highlight ?? []).map(([i, j]) => `${i},${j}`));
+  const absent = new Set((missing ?? []).map(([i, j]) => `${i},${j}`));
+  const gained = new Set((diff?.added ?? []).map(([i, j]) => `${i},${j}`));
+  const lost = new Set((diff?.removed ?? []).map(([i, j]) => `${i},${j}`));
+  const tableRef = useRef<HTMLTableElement>(null);
+  const [cursor, setCursor] = useState<[number, number]>([0, 0]);
+  const n = data.length;
+  const ci = Math.min(cursor[0], Math.max(n - 1, 0));
+  const cj = Math.min(cursor[1], Math.max(n - 1, 0));
+
+  const emit = (next: number[][]) =>
+    onChange?.(irreflexive ? mapCells(next, (v, i, j) => (i === j ? 0 : v)) : next);
+  const toggle = (i: number, j: number) =>
+    emit(mapCells(data, (v, r, c) => (r === i && c === j ? (v ? 0 : 1) : v)));
+  const moveTo = (i: number, j: number) => {
+    const next: [number, number] = [
+      Math.min(Math.max(i, 0), n - 1),
+      Math.min(Math.max(j, 0), n - 1),
+    ];
+    setCursor(next);
+    tableRef.current?.querySelector<HTMLElement>(`[data-cell="${next[0]},${next[1]}"]`)?.focus();
+  };
+  const onCellKey = (e: React.KeyboardEvent, i: number, j: number) => {
+    const moves: Record<string, [number, number]> = {
+      ArrowUp: [i - 1, j],
+      ArrowDown: [i + 1, j],
+      ArrowLeft: [i, j - 1],
+      ArrowRight: [i, j + 1],
+      Home: [i, 0],
+      End: [i, n - 1],
+    };
+    if (moves[e.key]) {
+      e.preventDefault();
+      moveTo(...moves[e.key]);
+    } else if (e.key === " " || e.key === "Enter") {
+      e.preventDefault();
+      toggle(i, j);
+    }
+  };
+
   return (
     <div className="mt-2">
       {title && <div className="text-sm text-slate-300 mb-2">{title}</div>}
+      {onChange && n > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {matrixActions
+            .filter((a) => !(irreflexive && a.id === "diagonal"))
+            .map((a) => (
+              <button
+                key={a.id}
+                onClick={() => emit(a.apply(data, ci, cj))}
+                className="px-2 py-1 rounded-md border border-slate-600 text-xs text-slate-300 hover:border-emerald-300 hover:text-emerald-300 transition"
+              >
+                {a.label(labels[ci], labels[cj])}
+              </button>
+            ))}
+        </div>
+      )}
       <div className="overflow-auto rounded-xl border border-slate-700">
-        <table className="min-w-full border-collapse text-xs">
+        <table ref={tableRef} className="min-w-full border-collapse text-xs">
           <thead className="bg-slate-900/60">
             <tr>
               <th className="px-2 py-1 border border-slate-700 text-slate-400 text-left">
@@ -47,7 +156,10 @@ export function MatrixTable({
               {labels.map((c) => (
                 <th
                   key={"c-" + c}
-                  className="px-2 py-1 border border-slate-700 text-slate-200"
+                  className={
+                    "px-2 py-1 border border-slate-700 " +
+                    (pivot === labels.indexOf(c) ? "text-sky-300 bg-sky-500/20" : "text-slate-200")
+                  }
                 >
                   {c}
                 </th>
@@ -57,17 +169,48 @@ export function MatrixTable({
           <tbody>
             {data.map((row, i) => (
               <tr key={"r-" + labels[i]} className="odd:bg-slate-900/30">
-                <th className="px-2 py-1 border border-slate-700 text-slate-200 text-left sticky left-0 bg-slate-900/50">
+                <th
+                  className={
+                    "px-2 py-1 border border-slate-700 text-left sticky left-0 " +
+                    (pivot === i ? "text-sky-300 bg-sky-900/80" : "text-slate-200 bg-slate-900/50")
+                  }
+                >
                   {labels[i]}
                 </th>
                 {row.map((v, j) => (
                   <td
                     key={`cell-${i}-${j}`}
+                    data-cell={onChange ? `${i},${j}` : undefined}
+                    tabIndex={onChange ? (i === ci && j === cj ? 0 : -1) : undefined}
+                    aria-label={onChange ? `(${labels[i]},${labels[j]})` : undefined}
+                    onClick={
+                      onChange
+                        ? () => {
+                            setCursor([i, j]);
+                            toggle(i, j);
+                          }
+                        : undefined
+                    }
+                    onKeyDown={onChange ? (e) => onCellKey(e, i, j) : undefined}
                     className={
                       "px-2 py-1 border border-slate-700 text-center font-mono " +
-                      (v
+                      (gained.has(`${i},${j}`)
+                        ? "bg-emerald-500/30 text-emerald-200 font-semibold"
+                        : lost.has(`${i},${j}`)
+                        ? "bg-rose-500/30 text-rose-200 line-through"
+                        : absent.has(`${i},${j}`)
+                        ? "bg-rose-500/25 text-rose-200 font-semibold"
+                        : marked.has(`${i},${j}`)
+                        ? "bg-amber-400/25 text-amber-200 font-semibold"
+                        : v
                         ? "bg-emerald-500/10 text-emerald-300"
-                        : "text-slate-300")
+                        : "text-slate-300") +
+                      (pivot === i || pivot === j
+                        ? " outline outline-1 -outline-offset-1 outline-sky-400/60"
+                        : "") +
+                      (onChange
+                        ? " cursor-pointer select-none hover:bg-slate-700/60 focus:outline focus:outline-2 focus:outline-emerald-300"
+                        : "")
                     }
                   >
                     {v}
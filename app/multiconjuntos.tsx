@@ -0,0 +1,90 @@
+// ——— Multiconjuntos: cada elemento con su multiplicidad ———
+// Unión = máximo, intersección = mínimo, suma ⊎ = suma y diferencia truncada en 0.
+import type { SetAlgebra } from "./expresiones";
+import { compareElems, formatTuple, isSetBuilder, scanListInput } from "./conjuntos";
+
+type Elem = string;
+
+export type Multiset = Map<Elem, number>;
+
+// "3×2" (o "3*2") es el elemento 3 con multiplicidad 2
+export function splitMultiplicity(token: string): [Elem, number] {
+  const m = token.match(/^(.+?)[×*](\d+)$/);
+  return m ? [m[1], Number(m[2])] : [token, 1];
+}
+
+// Repetir un elemento suma su multiplicidad: "1, 1, 2" = {1×2, 2}.
+// Los conjuntos por predicado no tienen repetidos: se usan los elementos ya resueltos.
+export function parseMultisetInput(input: string, resolved: Elem[]): Multiset {
+  const out: Multiset = new Map();
+  const { tokens, error } = scanListInput(input);
+  if (isSetBuilder(input) || error) {
+    resolved.forEach((x) => out.set(x, 1));
+    return out;
+  }
+  for (const t of tokens) {
+    const [x, n] = t.range ? [null, 1] : splitMultiplicity(t.elems[0]);
+    if (x !== null) out.set(x, (out.get(x) ?? 0) + n);
+    else t.elems.forEach((e) => out.set(e, (out.get(e) ?? 0) + 1));
+  }
+  for (const [x, n] of out) if (n === 0) out.delete(x);
+  return out;
+}
+
+function combine(a: Multiset, b: Multiset, f: (x: number, y: number) => number): Multiset {
+  const out: Multiset = new Map();
+  new Set([...a.keys(), ...b.keys()]).forEach((x) => {
+    const n = f(a.get(x) ?? 0, b.get(x) ?? 0);
+    if (n > 0) out.set(x, n);
+  });
+  return out;
+}
+
+export const multisetUnion = (a: Multiset, b: Multiset) => combine(a, b, Math.max);
+export const multisetIntersection = (a: Multiset, b: Multiset) => combine(a, b, Math.min);
+export const multisetSum = (a: Multiset, b: Multiset) => combine(a, b, (x, y) => x + y);
+export const multisetDifference = (a: Multiset, b: Multiset) =>
+  combine(a, b, (x, y) => Math.max(0, x - y));
+
+// Cardinalidad = suma de multiplicidades
+export function multisetSize(a: Multiset): number {
+  let n = 0;
+  a.forEach((m) => (n += m));
+  return n;
+}
+
+export function support(a: Multiset): Set<Elem> {
+  return new Set(a.keys());
+}
+
+export function formatMultiplicity(x: Elem, n: number): string {
+  return n === 1 ? x : `${x}×${n}`;
+}
+
+export function formatMultiset(a: Multiset): string[] {
+  return Array.from(a.keys())
+    .sort(compareElems)
+    .map((x) => formatMultiplicity(x, a.get(x)!));
+}
+
+// Complemento respecto a U (truncado); en A × B el par (a,b) aparece m_A(a)·m_B(b) veces
+export function multisetAlgebra(
+  U: Multiset,
+  lookup: (name: string) => Multiset | undefined
+): SetAlgebra<Multiset> {
+  return {
+    lookup,
+    universe: U,
+    empty: new Map(),
+    union: multisetUnion,
+    intersection: multisetIntersection,
+    difference: multisetDifference,
+    complement: (a) => multisetDifference(U, a),
+    sum: multisetSum,
+    product: (a, b) => {
+      const out: Multiset = new Map();
+      a.forEach((m, x) => b.forEach((n, y) => out.set(formatTuple([x, y]), m * n)));
+      return out;
+    },
+  };
+}
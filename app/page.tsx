@@ -3,6 +3,141 @@
 import React, { useMemo, useState } from "react";
 import { buildAdjacencyMatrix, buildRelationMatrix, MatrixTable } from "./matrix";
 import { buildModTable, egcd, modInv, modNorm, powMod, solveLinearCongruence, toInt } from "./modular";
+import {
+  bucketize,
+  compareElems,
+  difference,
+  equals,
+  finiteSetAlgebra,
+  formatSetLiteral,
+  regionLabel,
+  regionOrder,
+  isSetBuilder,
+  parseSetInput,
+  resolveSetInputs,
+  toSet,
+} from "./conjuntos";
+import {
+  ContainmentSketch,
+  containmentForest,
+  coverReport,
+  RelationshipTableView,
+  relationshipTable,
+} from "./contencion";
+import { type DigraphLayout, type DigraphWitness, RelationDigraph } from "./digrafo";
+import {
+  analyzeFunction,
+  ArrowDiagram,
+  composeRelations,
+  formatPairs,
+  imageOf,
+  inverseRelation,
+  preimageOf,
+} from "./funciones";
+import {
+  appendElems,
+  applyEdit,
+  diagnoseRelation,
+  diagnoseSetInput,
+  DiagnosticsList,
+  type Diagnostic,
+  type DiagnosticFix,
+} from "./diagnosticos";
+import {
+  checkSetName,
+  evalSetExpr,
+  ExprErrorView,
+  ExprTree,
+  formatSetExpr,
+  parseSetExpr,
+  regionsOfExpr,
+  type ExprError,
+  type SetAlgebra,
+  type SetExpr,
+} from "./expresiones";
+import {
+  evaluateQuery,
+  parseCardinalities,
+  regionVector,
+  solveCardinalities,
+} from "./cardinalidades";
+import {
+  counterexampleSets,
+  describeRegion,
+  identityLaws,
+  MembershipTableView,
+  membershipTable,
+  parseIdentity,
+} from "./identidades";
+import {
+  formatMultiplicity,
+  formatMultiset,
+  multisetAlgebra,
+  multisetSize,
+  parseMultisetInput,
+  splitMultiplicity,
+  support,
+} from "./multiconjuntos";
+import {
+  alphaCuts,
+  formatDegree,
+  formatFuzzySet,
+  fuzzyAlgebra,
+  fuzzyComplements,
+  fuzzyDeMorgan,
+  MembershipBars,
+  normPairs,
+  parseFuzzyInput,
+  splitDegree,
+} from "./difusos";
+import {
+  formatEndpoint,
+  formatIntervalParts,
+  formatIntervalSet,
+  intervalAlgebra,
+  intervalEquals,
+  intervalLength,
+  NumberLine,
+  parseIntervalInput,
+  realLine,
+} from "./intervalos";
+import {
+  closureNames,
+  closureOf,
+  classifyRelation,
+  enumerateRelations,
+  knownCount,
+  type ClosureKind,
+  equivalenceClasses,
+  formatQuotient,
+  matrixToPairs,
+  MAX_RELATION_POWER,
+  MAX_WARSHALL_VIEW,
+  missingPairCount,
+  parsePartition,
+  PartitionView,
+  type PropertyFilter,
+  RelationClassDiagram,
+  relationClasses,
+  relationFamilies,
+  type RelationFamily,
+  relationFromPartition,
+  relationOp,
+  relationOpLabel,
+  relationFromRule,
+  relationOpNames,
+  relationTemplates,
+  repairNames,
+  repairRelation,
+  type RepairKind,
+  relationViolations,
+  type RelationOp,
+  type RelationProperty,
+  type Violation,
+  violationUnits,
+  WarshallStepsView,
+} from "./relaciones";
+import { EulerDiagram, VennDiagram } from "./venn";
 
 // ————————————————————————————————————————————————————————————
 // Tipos y utilidades
@@ -161,44 +296,8 @@ function HasseDiagram({
 type Elem = string; // Usamos string para manejar números o texto
 type Pair = [Elem, Elem];
 
-function parseCSV(input: string): Elem[] {
-  return input
-    .split(/[\n,;\s]+/)
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0);
-}
-
-function uniq<T>(arr: T[]): T[] {
-  return Array.from(new Set(arr));
-}
-
-function toSet(arr: Elem[]): Set<Elem> {
-  return new Set(arr);
-}
-
-function intersection<T>(a: Set<T>, b: Set<T>): Set<T> {
-  const out = new Set<T>();
-  a.forEach((x) => b.has(x) && out.add(x));
-  return out;
-}
-
-function union<T>(a: Set<T>, b: Set<T>): Set<T> {
-  const out = new Set<T>(a);
-  b.forEach((x) => out.add(x));
-  return out;
-}
-
-function difference<T>(a: Set<T>, b: Set<T>): Set<T> {
-  const out = new Set<T>();
-  a.forEach((x) => !b.has(x) && out.add(x));
-  return out;
-}
-
-function equals<T>(a: Set<T>, b: Set<T>): boolean {
-  if (a.size !== b.size) return false;
-  for (const x of a) if (!b.has(x)) return false;
-  return true;
-}
+// Conjunto con nombre editable (id estable para las keys de React)
+type NamedSetInput = { id: number; name: string; text: string };
 
 // Parser de relación R / Hasse: busca pares del tipo (a,b)
 function parseRelation(input: string): Pair[] {
@@ -219,46 +318,6 @@ function parseRelation(input: string): Pair[] {
   return out;
 }
 
-// Segmentos del diagrama de Venn
-type Buckets = {
-  outside: Elem[];
-  onlyA: Elem[];
-  onlyB: Elem[];
-  onlyC: Elem[];
-  AandB: Elem[];
-  AandC: Elem[];
-  BandC: Elem[];
-  AandBandC: Elem[];
-};
-
-function bucketize(U: Set<Elem>, A: Set<Elem>, B: Set<Elem>, C: Set<Elem>): Buckets {
-  const b: Buckets = {
-    outside: [],
-    onlyA: [],
-    onlyB: [],
-    onlyC: [],
-    AandB: [],
-    AandC: [],
-    BandC: [],
-    AandBandC: [],
-  };
-  U.forEach((x) => {
-    const a = A.has(x);
-    const bb = B.has(x);
-    const c = C.has(x);
-    const sum = (a ? 1 : 0) + (bb ? 1 : 0) + (c ? 1 : 0);
-    if (sum === 0) b.outside.push(x);
-    else if (sum === 3) b.AandBandC.push(x);
-    else if (a && bb) b.AandB.push(x);
-    else if (a && c) b.AandC.push(x);
-    else if (bb && c) b.BandC.push(x);
-    else if (a) b.onlyA.push(x);
-    else if (bb) b.onlyB.push(x);
-    else if (c) b.onlyC.push(x);
-  });
-  return b;
-}
-
 type RelationProps = {
   reflexive: boolean;
   reflexiveMissing: Elem | null;
@@ -268,6 +327,16 @@ type RelationProps = {
   antisymmetricWitness: Pair | null;
   transitive: boolean;
   transitiveWitness: { ab: Pair; bc: Pair; acMissing: Pair } | null;
+  irreflexive: boolean;
+  irreflexiveWitness: Elem | null;
+  asymmetric: boolean;
+  asymmetricWitness: Pair | null;
+  connex: boolean;
+  connexWitness: Pair | null;
+  trichotomous: boolean;
+  trichotomousWitness: Pair | null;
+  euclidean: boolean;
+  euclideanWitness: { ab: Pair; ac: Pair; bcMissing: Pair } | null;
 };
 
 // ————————————————————————————————————————————————————————————
@@ -352,14 +421,16 @@ function coversFromRelation(
 // ————————————————————————————————————————————————————————————
 
 export default function Page() {
-  type Tab = "sets" | "relations" | "hasse" | "modular";
+  type Tab = "sets" | "relations" | "functions" | "hasse" | "modular";
   const [tab, setTab] = useState<Tab>("sets");
 
   // Valores por defecto: universo y subconjuntos
   const [UText, setUText] = useState("1,2,3,4,5,6,7,8,9");
-  const [AText, setAText] = useState("1,2,3,4,8");
-  const [BText, setBText] = useState("1,4,5,6,7");
-  const [CText, setCText] = useState("1,6,7,8,9");
+  const [setInputs, setSetInputs] = useState<NamedSetInput[]>([
+    { id: 1, name: "A", text: "1,2,3,4,8" },
+    { id: 2, name: "B", text: "1,4,5,6,7" },
+    { id: 3, name: "C", text: "1,6,7,8,9" },
+  ]);
 
   // Relación R por defecto (identidad sobre {1,2,3})
   const [RText, setRText] = useState("(1,1),(2,2),(3,3)");
@@ -367,62 +438,504 @@ export default function Page() {
   // Aristas de Hasse (cubiertas)
   const [HText, setHText] = useState("(1,2),(2,3)");
 
-  const U = useMemo(() => toSet(uniq(parseCSV(UText))), [UText]);
-  const A = useMemo(() => toSet(uniq(parseCSV(AText))), [AText]);
-  const B = useMemo(() => toSet(uniq(parseCSV(BText))), [BText]);
-  const C = useMemo(() => toSet(uniq(parseCSV(CText))), [CText]);
+  // Modo multiconjunto: los repetidos (o "3×2") cuentan; los conjuntos son sus soportes.
+  // Modo difuso: "3:0.7" da el grado de pertenencia; el soporte son los de grado > 0.
+  // Modo intervalos: uniones de intervalos reales; no hay elementos que listar.
+  const [calcMode, setCalcMode] = useState<"sets" | "multisets" | "fuzzy" | "intervals">(
+    "sets"
+  );
+  // Listas, rangos (1..100 step 3) o notación constructora ({x ∈ U | x mod 3 = 0});
+  // en modo difuso ":" marca el grado y no separa el predicado
+  const setParse = useMemo(
+    () =>
+      resolveSetInputs(
+        UText,
+        setInputs.map((s) => ({ name: s.name.trim(), text: s.text })),
+        calcMode === "fuzzy"
+      ),
+    [UText, setInputs, calcMode]
+  );
+  const multisets = useMemo(
+    () =>
+      calcMode === "multisets"
+        ? {
+            universe: parseMultisetInput(UText, setParse.universe.elems),
+            sets: setInputs.map((s, i) => parseMultisetInput(s.text, setParse.sets[i].elems)),
+          }
+        : null,
+    [calcMode, UText, setInputs, setParse]
+  );
+  const fuzzySets = useMemo(
+    () =>
+      calcMode === "fuzzy"
+        ? {
+            universe: parseFuzzyInput(UText, setParse.universe.elems),
+            sets: setInputs.map((s, i) => parseFuzzyInput(s.text, setParse.sets[i].elems)),
+          }
+        : null,
+    [calcMode, UText, setInputs, setParse]
+  );
+  // U vacío es toda la recta ℝ
+  const intervalSets = useMemo(() => {
+    if (calcMode !== "intervals") return null;
+    const read = (text: string) => {
+      const r = parseIntervalInput(text);
+      return r.ok ? { value: r.value, error: null } : { value: [], error: r };
+    };
+    return {
+      universe: UText.trim() ? read(UText) : { value: realLine, error: null },
+      sets: setInputs.map((s) => read(s.text)),
+    };
+  }, [calcMode, UText, setInputs]);
+
+  // Universo finito que comparten las demás pestañas (relaciones, Hasse, avisos); el modo
+  // intervalos usa su propio universo (intervalSets.universe) y no lo vacía
+  const U = useMemo(
+    () =>
+      multisets
+        ? support(multisets.universe)
+        : fuzzySets
+        ? support(fuzzySets.universe.set)
+        : toSet(setParse.universe.elems),
+    [multisets, fuzzySets, setParse]
+  );
+  const namedSets = useMemo(
+    () =>
+      setInputs.map((s, i) => ({
+        id: s.id,
+        name: s.name.trim(),
+        set: intervalSets
+          ? new Set<Elem>()
+          : multisets
+          ? support(multisets.sets[i])
+          : fuzzySets
+          ? support(fuzzySets.sets[i].set)
+          : toSet(setParse.sets[i].elems),
+      })),
+    [setInputs, setParse, intervalSets, multisets, fuzzySets]
+  );
+  const setNames = useMemo(() => namedSets.map((s) => s.name), [namedSets]);
+
+  // Nombre inválido o repetido → el conjunto no se puede usar en expresiones
+  const setNameErrors = useMemo(
+    () =>
+      namedSets.map(
+        (s, i) =>
+          checkSetName(s.name) ??
+          (setNames.indexOf(s.name) < i ? `Ya existe un conjunto llamado ${s.name}.` : null)
+      ),
+    [namedSets, setNames]
+  );
+
+  const regions = useMemo(
+    () => bucketize(U, namedSets.map((s) => s.set)),
+    [U, namedSets]
+  );
+
+  // Regiones para mostrar: con multiplicidades "3×2" en modo multiconjunto
+  // (si difieren entre los conjuntos de la región: "3×(2,1)", en el orden de los nombres)
+  // y con grados "3:0.7" en modo difuso
+  const displayRegions = useMemo(() => {
+    if (fuzzySets) {
+      return regions.map(({ mask, items }) => ({
+        mask,
+        items: items.map((x) => {
+          const degrees = (
+            mask === 0
+              ? [fuzzySets.universe.set]
+              : fuzzySets.sets.map((f) => f.set).filter((_, i) => mask & (1 << i))
+          ).map((f) => formatDegree(f.get(x) ?? 0));
+          return degrees.every((d) => d === degrees[0])
+            ? `${x}:${degrees[0]}`
+            : `${x}:(${degrees.join(",")})`;
+        }),
+      }));
+    }
+    if (!multisets) return regions;
+    return regions.map(({ mask, items }) => ({
+      mask,
+      items: items.map((x) => {
+        const counts =
+          mask === 0
+            ? [multisets.universe.get(x) ?? 1]
+            : multisets.sets.filter((_, i) => mask & (1 << i)).map((m) => m.get(x) ?? 0);
+        return counts.every((n) => n === counts[0])
+          ? formatMultiplicity(x, counts[0])
+          : `${x}×(${counts.join(",")})`;
+      }),
+    }));
+  }, [regions, multisets, fuzzySets]);
+
+  // Contención, disyunción y complementos entre los conjuntos (y sus complementos)
+  const [relWithComplements, setRelWithComplements] = useState(true);
+  const usableSets = useMemo(
+    () =>
+      namedSets
+        .filter((_, i) => !setNameErrors[i])
+        .map((s) => ({ name: s.name, set: s.set })),
+    [namedSets, setNameErrors]
+  );
+  const setRelations = useMemo(
+    () =>
+      relationshipTable(
+        relWithComplements
+          ? [
+              ...usableSets,
+              ...usableSets.map((s) => ({ name: `${s.name}′`, set: difference(U, s.set) })),
+            ]
+          : usableSets,
+        U
+      ),
+    [usableSets, relWithComplements, U]
+  );
+  const setCover = useMemo(() => coverReport(usableSets, U), [usableSets, U]);
+  const containment = useMemo(() => containmentForest(usableSets), [usableSets]);
+  const sketchOverlaps = useMemo(
+    () =>
+      relationshipTable(usableSets, U)
+        .filter((r) => !r.subset && !r.superset && !r.disjoint)
+        .map((r) => `${r.x} y ${r.y}`),
+    [usableSets, U]
+  );
+
+  // Avisos de entrada (elementos fuera de U, repetidos, pares mal formados…)
+  const universeIsList = !isSetBuilder(UText, calcMode === "fuzzy");
+  const universeDiagnostics = useMemo(
+    () =>
+      calcMode === "intervals"
+        ? []
+        : diagnoseSetInput(UText, "U", setParse.universe.elems, U, false, calcMode),
+    [UText, setParse, U, calcMode]
+  );
+  const setDiagnostics = useMemo(
+    () =>
+      namedSets.map((s, i) =>
+        calcMode === "intervals"
+          ? []
+          : diagnoseSetInput(
+              setInputs[i].text,
+              s.name || "el conjunto",
+              setParse.sets[i].elems,
+              U,
+              universeIsList,
+              calcMode
+            )
+      ),
+    [namedSets, setInputs, setParse, U, universeIsList, calcMode]
+  );
+  const relationDiagnostics = useMemo(
+    () => diagnoseRelation(RText, U, universeIsList),
+    [RText, U, universeIsList]
+  );
+  const hasseDiagnostics = useMemo(
+    () => diagnoseRelation(HText, U, universeIsList),
+    [HText, U, universeIsList]
+  );
 
-  const buckets = useMemo(() => bucketize(U, A, B, C), [U, A, B, C]);
+  const applyFix = (fix: DiagnosticFix, text: string, setText: (v: string) => void) => {
+    if (fix.kind === "add-to-universe") setUText((t) => appendElems(t, fix.elems));
+    else setText(applyEdit(text, fix));
+  };
+
+  const updateSetInput = (id: number, patch: Partial<NamedSetInput>) =>
+    setSetInputs((prev) => prev.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+
+  const addSetInput = () =>
+    setSetInputs((prev) => {
+      const used = new Set(prev.map((s) => s.name.trim()));
+      const letter =
+        "ABCDEFGHIJKLMNOPQRSTVWXYZ".split("").find((l) => !used.has(l)) ??
+        `S${prev.length + 1}`;
+      const id = Math.max(0, ...prev.map((s) => s.id)) + 1;
+      return [...prev, { id, name: letter, text: "" }];
+    });
+
+  const removeSetInput = (id: number) =>
+    setSetInputs((prev) => (prev.length > 1 ? prev.filter((s) => s.id !== id) : prev));
 
   // ——— Operaciones de conjuntos ———
-  type Op = "union" | "intersection" | "difference" | "complement";
+  type Op =
+    | "union"
+    | "intersection"
+    | "difference"
+    | "complement"
+    | "symdiff"
+    | "product"
+    | "powerset"
+    | "sum";
   const [op, setOp] = useState<Op>("union");
   const [left, setLeft] = useState("A");
   const [right, setRight] = useState("B");
 
-  function pick(name: string): Set<Elem> {
-    switch (name) {
-      case "A":
-        return A;
-      case "B":
-        return B;
-      case "C":
-        return C;
-      case "A'":
-        return difference(U, A);
-      case "B'":
-        return difference(U, B);
-      case "C'":
-        return difference(U, C);
-      default:
-        return new Set();
-    }
+  // Expresión libre; los selectores solo escriben una expresión predefinida
+  const [exprText, setExprText] = useState("A ∪ B");
+
+  function presetExpr(o: Op, l: string, r: string): string {
+    const operand = (name: string) => name.replace("'", "′");
+    if (o === "complement") return `${operand(l)}′`;
+    if (o === "powerset") return `P(${operand(l)})`;
+    const sym =
+      o === "union"
+        ? "∪"
+        : o === "intersection"
+        ? "∩"
+        : o === "difference"
+        ? "−"
+        : o === "symdiff"
+        ? "△"
+        : o === "sum"
+        ? "⊎"
+        : "×";
+    return `${operand(l)} ${sym} ${operand(r)}`;
   }
 
-  const resultSet = useMemo(() => {
-    const L = pick(left);
-    const R = pick(right);
-    if (op === "union") return union(L, R);
-    if (op === "intersection") return intersection(L, R);
-    if (op === "difference") return difference(L, R);
-    if (op === "complement") return difference(U, L);
-    return new Set<Elem>();
-  }, [op, left, right, A, B, C, U]);
-
-  // De Morgan
-  const demorgan1_left = useMemo(() => difference(U, union(A, B)), [U, A, B]);
-  const demorgan1_right = useMemo(
-    () => intersection(difference(U, A), difference(U, B)),
-    [U, A, B]
+  const operandOptions = [
+    ...setNames.map((n) => ({ label: n, value: n })),
+    ...setNames.map((n) => ({ label: `${n}′`, value: `${n}'` })),
+  ];
+
+  const applyPreset = (o: Op, l: string, r: string) => {
+    setOp(o);
+    setLeft(l);
+    setRight(r);
+    setExprText(presetExpr(o, l, r));
+  };
+
+  const setAlgebra = useMemo(
+    () =>
+      finiteSetAlgebra(U, (name) => {
+        const i = setNames.indexOf(name);
+        return i >= 0 && !setNameErrors[i] ? namedSets[i].set : undefined;
+      }),
+    [U, namedSets, setNames, setNameErrors]
+  );
+
+  const multiAlgebra = useMemo(
+    () =>
+      multisets
+        ? multisetAlgebra(multisets.universe, (name) => {
+            const i = setNames.indexOf(name);
+            return i >= 0 && !setNameErrors[i] ? multisets.sets[i] : undefined;
+          })
+        : null,
+    [multisets, setNames, setNameErrors]
+  );
+
+  // Modo difuso: pareja t-norma / t-conorma y complemento elegidos
+  const [fuzzyNormId, setFuzzyNormId] = useState("standard");
+  const [fuzzyComplementId, setFuzzyComplementId] = useState("standard");
+  const fuzzyComplement =
+    fuzzyComplements.find((c) => c.id === fuzzyComplementId) ?? fuzzyComplements[0];
+  const fuzzyAlg = useMemo(
+    () =>
+      fuzzySets
+        ? fuzzyAlgebra(
+            fuzzySets.universe.set,
+            (name) => {
+              const i = setNames.indexOf(name);
+              return i >= 0 && !setNameErrors[i] ? fuzzySets.sets[i].set : undefined;
+            },
+            normPairs.find((p) => p.id === fuzzyNormId) ?? normPairs[0],
+            fuzzyComplement
+          )
+        : null,
+    [fuzzySets, setNames, setNameErrors, fuzzyNormId, fuzzyComplement]
+  );
+
+  const intervalAlg = useMemo(
+    () =>
+      intervalSets
+        ? intervalAlgebra(intervalSets.universe.value, (name) => {
+            const i = setNames.indexOf(name);
+            return i >= 0 && !setNameErrors[i] ? intervalSets.sets[i].value : undefined;
+          })
+        : null,
+    [intervalSets, setNames, setNameErrors]
+  );
+
+  const exprParse = useMemo(() => parseSetExpr(exprText), [exprText]);
+  // Resultado con multiplicidades (solo en modo multiconjunto)
+  const multiEval = useMemo(
+    () => (exprParse.ok && multiAlgebra ? evalSetExpr(exprParse.ast, multiAlgebra) : null),
+    [exprParse, multiAlgebra]
+  );
+  // Resultado con grados de pertenencia (solo en modo difuso)
+  const fuzzyEval = useMemo(
+    () => (exprParse.ok && fuzzyAlg ? evalSetExpr(exprParse.ast, fuzzyAlg) : null),
+    [exprParse, fuzzyAlg]
+  );
+  // Resultado como unión de intervalos (solo en modo intervalos)
+  const intervalEval = useMemo(
+    () => (exprParse.ok && intervalAlg ? evalSetExpr(exprParse.ast, intervalAlg) : null),
+    [exprParse, intervalAlg]
+  );
+  // Resultado como conjunto finito; sobre ℝ no hay elementos sueltos, así que con intervalos
+  // solo se conserva el error (null si no hay) y el resultado queda en intervalEval
+  const exprEval = useMemo(() => {
+    if (!exprParse.ok) return exprParse;
+    if (intervalEval) return intervalEval.ok ? null : intervalEval;
+    const mapped = multiEval ?? fuzzyEval;
+    if (mapped) {
+      return mapped.ok ? { ok: true as const, value: support(mapped.value) } : mapped;
+    }
+    return evalSetExpr(exprParse.ast, setAlgebra);
+  }, [exprParse, intervalEval, multiEval, fuzzyEval, setAlgebra]);
+
+  const fuzzyChecks = useMemo(() => {
+    if (!fuzzySets || usableSets.length < 2) return null;
+    const [a, b] = usableSets;
+    const set = (name: string) => fuzzySets.sets[setNames.indexOf(name)].set;
+    return {
+      a: a.name,
+      b: b.name,
+      rows: fuzzyDeMorgan(set(a.name), set(b.name), U, fuzzyComplement),
+    };
+  }, [fuzzySets, usableSets, setNames, U, fuzzyComplement]);
+
+  // Filas de la recta numérica: U, los conjuntos y el resultado de la expresión
+  const intervalRows = useMemo(() => {
+    if (!intervalSets) return [];
+    return [
+      { label: "U", set: intervalSets.universe.value },
+      ...usableSets.map((s) => ({
+        label: s.name,
+        set: intervalSets.sets[setNames.indexOf(s.name)].value,
+      })),
+      ...(intervalEval?.ok && exprParse.ok
+        ? [{ label: formatSetExpr(exprParse.ast), set: intervalEval.value, highlight: true }]
+        : []),
+    ];
+  }, [intervalSets, usableSets, setNames, intervalEval, exprParse]);
+
+  const resultSet = useMemo(
+    () => (exprEval?.ok ? exprEval.value : new Set<Elem>()),
+    [exprEval]
   );
-  const demorgan1_ok = equals(demorgan1_left, demorgan1_right);
 
-  const demorgan2_left = useMemo(() => difference(U, intersection(A, B)), [U, A, B]);
-  const demorgan2_right = useMemo(
-    () => union(difference(U, A), difference(U, B)),
-    [U, A, B]
+  // Cardinalidad explicada para × y P(·)
+  const cardinalityNote = useMemo(() => {
+    if (!exprParse.ok || !exprEval?.ok || calcMode !== "sets") return null;
+    const ast = exprParse.ast;
+    const size = (node: SetExpr) => {
+      const r = evalSetExpr(node, setAlgebra);
+      return r.ok ? r.value.size : 0;
+    };
+    if (ast.kind === "binary" && ast.op === "product") {
+      return `|${formatSetExpr(ast)}| = ${size(ast.left)} · ${size(ast.right)} = ${exprEval.value.size}`;
+    }
+    if (ast.kind === "powerset") {
+      return `|${formatSetExpr(ast)}| = 2^${size(ast.arg)} = ${exprEval.value.size}`;
+    }
+    return null;
+  }, [exprParse, exprEval, calcMode, setAlgebra]);
+
+  // El resultado se puede usar como relación si todos sus elementos son pares (a,b)
+  const resultPairs = useMemo(() => {
+    if (resultSet.size === 0) return null;
+    const pairs: Pair[] = [];
+    for (const x of resultSet) {
+      const m = x.match(/^\(([^(),{}]+),([^(),{}]+)\)$/);
+      if (!m) return null;
+      pairs.push([m[1], m[2]]);
+    }
+    return pairs;
+  }, [resultSet]);
+
+  // Regiones del diagrama que forman el resultado (por pertenencia, aunque estén vacías)
+  const [highlightResult, setHighlightResult] = useState(true);
+  const resultRegions = useMemo(
+    () =>
+      exprParse.ok && (exprEval?.ok ?? intervalEval?.ok)
+        ? regionsOfExpr(exprParse.ast, setNames) ?? undefined
+        : undefined,
+    [exprParse, exprEval, intervalEval, setNames]
+  );
+  const vennHighlight = highlightResult ? resultRegions : undefined;
+
+  // ——— Cardinalidades (inclusión–exclusión) ———
+  const [vennMode, setVennMode] = useState<"elements" | "counts">("elements");
+  // Forma del diagrama de elementos: círculos fijos (Venn) o proporcionales (Euler)
+  const [vennShape, setVennShape] = useState<"venn" | "euler">("venn");
+  const [countText, setCountText] = useState(
+    "|U| = 100\n|A| = 40\n|B| = 35\n|C| = 30\n|A ∩ B| = 12\n|A ∩ C| = 10\n|B ∩ C| = 8\n|A ∪ B ∪ C| = 79"
   );
-  const demorgan2_ok = equals(demorgan2_left, demorgan2_right);
+  const [countQueryText, setCountQueryText] = useState("|C − (A ∪ B)|");
+
+  const countParsed = useMemo(
+    () => parseCardinalities(countText, setNames),
+    [countText, setNames]
+  );
+  const countSolution = useMemo(
+    () => solveCardinalities(countParsed.constraints, setNames),
+    [countParsed, setNames]
+  );
+  const countStatus =
+    countSolution.conflictLine !== null || countSolution.invalidRegions.length > 0
+      ? "inconsistent"
+      : countSolution.rank < countSolution.unknowns
+      ? "underdetermined"
+      : "ok";
+
+  const countQueryParse = useMemo(
+    () => parseSetExpr(countQueryText.trim().replace(/^\|(.*)\|$/, "$1")),
+    [countQueryText]
+  );
+  const countQuery = useMemo(() => {
+    if (!countQueryParse.ok) return null;
+    const regionSet = regionsOfExpr(countQueryParse.ast, setNames);
+    if (!regionSet) return null;
+    return {
+      label: formatSetExpr(countQueryParse.ast),
+      regions: regionSet,
+      value: evaluateQuery(regionVector(countQueryParse.ast, setNames), countSolution.basis),
+    };
+  }, [countQueryParse, setNames, countSolution]);
+  const countQueryError = !countQueryParse.ok
+    ? countQueryParse.error
+    : !countQuery
+    ? "La pregunta debe usar los conjuntos actuales con ∪, ∩, −, △ o complemento"
+    : null;
+
+  // ——— Identidades: en los conjuntos actuales y para todos los conjuntos ———
+  const [identityText, setIdentityText] = useState(identityLaws[0].text);
+  const identityParse = useMemo(() => parseIdentity(identityText), [identityText]);
+
+  const identityCheck = useMemo(() => {
+    if (!identityParse.ok) return null;
+    const id = identityParse.identity;
+    // Con intervalos se comparan las formas normales y se muestran sus piezas
+    const evalBoth = <T,>(
+      alg: SetAlgebra<T>,
+      same: (a: T, b: T) => boolean,
+      show: (a: T) => Set<Elem>
+    ) => {
+      const l = evalSetExpr(id.lhs, alg);
+      const r = evalSetExpr(id.rhs, alg);
+      return {
+        concrete:
+          l.ok && r.ok
+            ? { lhs: show(l.value), rhs: show(r.value), ok: same(l.value, r.value) }
+            : null,
+        concreteError: !l.ok ? l.error : !r.ok ? r.error : null,
+      };
+    };
+    const { concrete, concreteError } = intervalAlg
+      ? evalBoth(intervalAlg, intervalEquals, (a) => new Set(formatIntervalParts(a)))
+      : evalBoth(setAlgebra, equals, (a) => a);
+
+    const rows = membershipTable(id);
+    const failing = rows?.find((row) => row.lhs !== row.rhs) ?? null;
+    // Elementos de U que caen en la región del contraejemplo (si los conjuntos existen);
+    // sobre ℝ no hay elementos que listar
+    const sets = id.vars.map((v) => setAlgebra.lookup(v));
+    const regionElems =
+      failing && !intervalAlg && sets.every((x) => x !== undefined)
+        ? Array.from(U).filter((x) =>
+            sets.every((S, i) => S!.has(x) === ((failing.mask & (1 << i)) !== 0))
+          )
+        : [];
+    return { id, concrete, concreteError, rows, failing, regionElems };
+  }, [identityParse, setAlgebra, intervalAlg, U]);
 
   // UI Helpers
   const pill = (text: string, title?: string) => (
@@ -435,39 +948,10 @@ export default function Page() {
     <span className="text-xs px-2 py-1 rounded-full border">{text}</span>
   );
 
-  const regionFill = {
-    onlyA: "fill-emerald-400/25",
-    onlyB: "fill-amber-400/25",
-    onlyC: "fill-sky-400/25",
-    AandB: "fill-rose-400/25",
-    AandC: "fill-violet-400/25",
-    BandC: "fill-lime-400/25",
-    AandBandC: "fill-fuchsia-400/30",
-  } as const;
-
   function isInResult(x: Elem): boolean {
     return resultSet.has(x);
   }
 
-  const circles = {
-    A: { cx: 220, cy: 180, r: 150 },
-    B: { cx: 380, cy: 180, r: 150 }, // B derecha
-    C: { cx: 300, cy: 300, r: 150 }, // C abajo
-  } as const;
-
-  function Circle({ cx, cy, r }: { cx: number; cy: number; r: number }) {
-    return (
-      <circle
-        cx={cx}
-        cy={cy}
-        r={r}
-        className="stroke-emerald-300/60"
-        strokeWidth={3}
-        fill="none"
-      />
-    );
-  }
-
   // ——— Relación R (pares ordenados) ———
   const relationPairs = useMemo(() => parseRelation(RText), [RText]);
 
@@ -526,6 +1010,64 @@ export default function Page() {
       }
     }
 
+    // Irreflexiva: ningún (x,x) en R
+    let irreflexive = true;
+    let irreflexiveWitness: Elem | null = null;
+    for (const x of U) {
+      if (relationSet.has(pairKey(x, x))) {
+        irreflexive = false;
+        irreflexiveWitness = x;
+        break;
+      }
+    }
+
+    // Asimétrica: si (a,b) está en R, (b,a) no (tampoco vale a = b)
+    let asymmetric = true;
+    let asymmetricWitness: Pair | null = null;
+    for (const [a, b] of relationPairs) {
+      if (relationSet.has(pairKey(b, a))) {
+        asymmetric = false;
+        asymmetricWitness = [a, b];
+        break;
+      }
+    }
+
+    // Conexa (total) y tricotómica: se revisa cada par {a, b} de U una sola vez
+    const elems = Array.from(U);
+    let connex = true;
+    let connexWitness: Pair | null = null;
+    let trichotomous = true;
+    let trichotomousWitness: Pair | null = null;
+    for (let i = 0; i < elems.length; i++) {
+      for (let j = i; j < elems.length; j++) {
+        const [a, b] = [elems[i], elems[j]];
+        const ab = relationSet.has(pairKey(a, b));
+        const ba = relationSet.has(pairKey(b, a));
+        if (connex && !ab && !ba) {
+          connex = false;
+          connexWitness = [a, b];
+        }
+        // Exactamente una de a R b, a = b, b R a
+        if (trichotomous && (a === b ? ab : ab === ba)) {
+          trichotomous = false;
+          trichotomousWitness = [a, b];
+        }
+      }
+    }
+
+    // Euclidiana: si (a,b) y (a,c) están en R, también (b,c)
+    let euclidean = true;
+    let euclideanWitness: { ab: Pair; ac: Pair; bcMissing: Pair } | null = null;
+    euclid: for (const [a, b] of relationPairs) {
+      for (const [c, d] of relationPairs) {
+        if (a === c && !relationSet.has(pairKey(b, d))) {
+          euclidean = false;
+          euclideanWitness = { ab: [a, b], ac: [c, d], bcMissing: [b, d] };
+          break euclid;
+        }
+      }
+    }
+
     return {
       reflexive,
       reflexiveMissing,
@@ -535,6 +1077,16 @@ export default function Page() {
       antisymmetricWitness,
       transitive,
       transitiveWitness,
+      irreflexive,
+      irreflexiveWitness,
+      asymmetric,
+      asymmetricWitness,
+      connex,
+      connexWitness,
+      trichotomous,
+      trichotomousWitness,
+      euclidean,
+      euclideanWitness,
     };
   }, [U, relationPairs, relationSet]);
 
@@ -562,6 +1114,54 @@ export default function Page() {
     ? `Están (${relationProps.transitiveWitness.ab[0]}, ${relationProps.transitiveWitness.ab[1]}) y (${relationProps.transitiveWitness.bc[0]}, ${relationProps.transitiveWitness.bc[1]}) en R, pero falta (${relationProps.transitiveWitness.acMissing[0]}, ${relationProps.transitiveWitness.acMissing[1]}).`
     : "No se cumple la definición de transitiva.";
 
+  const irreflexiveDetail = relationProps.irreflexive
+    ? "Ningún elemento está relacionado consigo mismo."
+    : relationProps.irreflexiveWitness !== null
+    ? `Está el par (${relationProps.irreflexiveWitness}, ${relationProps.irreflexiveWitness}) en R.`
+    : "No se cumple la definición de irreflexiva.";
+
+  const asymmetricDetail = relationProps.asymmetric
+    ? "Si (a,b) está en R, (b,a) no está (ni siquiera con a = b)."
+    : relationProps.asymmetricWitness
+    ? relationProps.asymmetricWitness[0] === relationProps.asymmetricWitness[1]
+      ? `Está (${relationProps.asymmetricWitness[0]}, ${relationProps.asymmetricWitness[1]}) en R.`
+      : `Están (${relationProps.asymmetricWitness[0]}, ${relationProps.asymmetricWitness[1]}) y (${relationProps.asymmetricWitness[1]}, ${relationProps.asymmetricWitness[0]}) en R.`
+    : "No se cumple la definición de asimétrica.";
+
+  const connexDetail = relationProps.connex
+    ? "Para todo a, b en U está (a,b) o (b,a) en R."
+    : relationProps.connexWitness
+    ? `No está (${relationProps.connexWitness[0]}, ${relationProps.connexWitness[1]}) ni (${relationProps.connexWitness[1]}, ${relationProps.connexWitness[0]}) en R.`
+    : "No se cumple la definición de conexa.";
+
+  const trichotomousDetail = (() => {
+    if (relationProps.trichotomous) return "Para todo a, b en U se da exactamente uno: a R b, a = b o b R a.";
+    if (!relationProps.trichotomousWitness) return "No se cumple la definición de tricotómica.";
+    const [a, b] = relationProps.trichotomousWitness;
+    if (a === b) return `Está (${a}, ${a}) en R, y además ${a} = ${a}.`;
+    return relationSet.has(pairKey(a, b))
+      ? `Están (${a}, ${b}) y (${b}, ${a}) en R.`
+      : `${a} ≠ ${b} pero no está (${a}, ${b}) ni (${b}, ${a}) en R.`;
+  })();
+
+  const euclideanDetail = relationProps.euclidean
+    ? "Siempre que (a,b) y (a,c) están en R, también (b,c) está en R."
+    : relationProps.euclideanWitness
+    ? `Están (${relationProps.euclideanWitness.ab[0]}, ${relationProps.euclideanWitness.ab[1]}) y (${relationProps.euclideanWitness.ac[0]}, ${relationProps.euclideanWitness.ac[1]}) en R, pero falta (${relationProps.euclideanWitness.bcMissing[0]}, ${relationProps.euclideanWitness.bcMissing[1]}).`
+    : "No se cumple la definición de euclidiana.";
+
+  const propertyRows: { key: RelationProperty; name: string; detail: string }[] = [
+    { key: "reflexive", name: "Reflexiva", detail: reflexiveDetail },
+    { key: "irreflexive", name: "Irreflexiva", detail: irreflexiveDetail },
+    { key: "symmetric", name: "Simétrica", detail: symmetricDetail },
+    { key: "antisymmetric", name: "Antisimétrica", detail: antisymmetricDetail },
+    { key: "asymmetric", name: "Asimétrica", detail: asymmetricDetail },
+    { key: "transitive", name: "Transitiva", detail: transitiveDetail },
+    { key: "connex", name: "Conexa (total)", detail: connexDetail },
+    { key: "trichotomous", name: "Tricotómica", detail: trichotomousDetail },
+    { key: "euclidean", name: "Euclidiana", detail: euclideanDetail },
+  ];
+
   // ——— Handlers para Hasse ———
   const handleGenerateRFromHasse = () => {
     const covers = parseRelation(HText); // ! Por cada par
@@ -582,46 +1182,293 @@ export default function Page() {
     [U]
   );
 
-  const isPartialOrder =
-    relationProps.reflexive &&
-    relationProps.transitive &&
-    relationProps.antisymmetric;
-
   const isEquivalence =
     relationProps.reflexive &&
     relationProps.transitive &&
     relationProps.symmetric;
 
-  // let classificationLabel = "No es relacion de orden parcial ni de equivalencia.";
-  let classificationLabel = "";
-  let classificationStyle =
-    "border-rose-400 text-rose-300";
-
-  if (isPartialOrder && isEquivalence) {
-    classificationLabel =
-      "R es una relación de orden parcial y de equivalencia.";
-    classificationStyle =
-      "border-emerald-400 text-emerald-300";
-  } else if (isPartialOrder) {
-    classificationLabel = "R es una relación de orden parcial.";
-    classificationStyle =
-      "border-emerald-400 text-emerald-300";
-  } else if (isEquivalence) {
-    classificationLabel = "R es una relación de equivalencia.";
-    classificationStyle =
-      "border-emerald-400 text-emerald-300";
-  }
+  // Clases a las que pertenece R (preórdenes, órdenes, equivalencia, tolerancia)
+  const relationClassIds = classifyRelation(relationProps);
+  const classNames = relationClasses
+    .filter((c) => relationClassIds.includes(c.id))
+    .map((c) => c.name.toLowerCase());
+  const classificationLabel =
+    classNames.length === 0
+      ? "R no es preorden, orden, equivalencia ni tolerancia."
+      : classNames.length === 1
+      ? `R es ${classNames[0]}.`
+      : `R es ${classNames.slice(0, -1).join(", ")} y ${classNames[classNames.length - 1]}.`;
+  const classificationStyle =
+    classNames.length > 0 ? "border-emerald-400 text-emerald-300" : "border-rose-400 text-rose-300";
 
   const UArr = useMemo(() => Array.from(U).sort(), [U]);
   const relationMatrix = useMemo(
     () => buildRelationMatrix(UArr, relationPairs),
     [UArr, relationPairs]
   );
+
+  // Digrafo de R: nodo bajo el cursor (marca su fila y columna) y testigo a resaltar
+  const [digraphLayout, setDigraphLayout] = useState<DigraphLayout>("circle");
+  const [digraphNode, setDigraphNode] = useState<Elem | null>(null);
+  const [witnessOf, setWitnessOf] = useState<"none" | RelationProperty>("none");
+  const digraphWitness: DigraphWitness | null = useMemo(() => {
+    const p = relationProps;
+    if (witnessOf === "reflexive" && p.reflexiveMissing !== null) {
+      const x = p.reflexiveMissing;
+      return { present: [], missing: [[x, x]] };
+    }
+    if (witnessOf === "symmetric" && p.symmetricWitness) {
+      const [a, b] = p.symmetricWitness;
+      return { present: [[a, b]], missing: [[b, a]] };
+    }
+    if (witnessOf === "antisymmetric" && p.antisymmetricWitness) {
+      const [a, b] = p.antisymmetricWitness;
+      return { present: [[a, b], [b, a]], missing: [] };
+    }
+    if (witnessOf === "transitive" && p.transitiveWitness) {
+      const w = p.transitiveWitness;
+      return { present: [w.ab, w.bc], missing: [w.acMissing] };
+    }
+    if (witnessOf === "irreflexive" && p.irreflexiveWitness !== null) {
+      const x = p.irreflexiveWitness;
+      return { present: [[x, x]], missing: [] };
+    }
+    if (witnessOf === "asymmetric" && p.asymmetricWitness) {
+      const [a, b] = p.asymmetricWitness;
+      return { present: [[a, b], [b, a]], missing: [] };
+    }
+    if (witnessOf === "connex" && p.connexWitness) {
+      const [a, b] = p.connexWitness;
+      return { present: [], missing: [[a, b], [b, a]] };
+    }
+    if (witnessOf === "trichotomous" && p.trichotomousWitness) {
+      const [a, b] = p.trichotomousWitness;
+      return relationSet.has(pairKey(a, b))
+        ? { present: [[a, b], [b, a]], missing: [] }
+        : { present: [], missing: [[a, b], [b, a]] };
+    }
+    if (witnessOf === "euclidean" && p.euclideanWitness) {
+      const w = p.euclideanWitness;
+      return { present: [w.ab, w.ac], missing: [w.bcMissing] };
+    }
+    return null;
+  }, [witnessOf, relationProps, relationSet]);
+
+  // Modo exhaustivo: todos los contraejemplos; al elegir uno se marca en el digrafo y la matriz.
+  // Se guarda por propiedad y etiqueta: si R o U cambian, se busca de nuevo (o desaparece)
+  const [allWitnesses, setAllWitnesses] = useState(false);
+  const [pickedWitness, setPickedWitness] = useState<{
+    property: RelationProperty;
+    label: string;
+  } | null>(null);
+  const violations = useMemo(
+    () => (allWitnesses ? relationViolations(UArr, relationPairs) : null),
+    [allWitnesses, UArr, relationPairs]
+  );
+  const pickedViolation: Violation | null = useMemo(
+    () =>
+      (pickedWitness &&
+        violations?.[pickedWitness.property].find((v) => v.label === pickedWitness.label)) ??
+      null,
+    [pickedWitness, violations]
+  );
+  const shownWitness: DigraphWitness | null = pickedViolation ?? digraphWitness;
+  const witnessCells = useMemo(() => {
+    const idx = new Map(UArr.map((x, i) => [x, i]));
+    const cells = (pairs: [Elem, Elem][]) =>
+      pairs
+        .filter(([a, b]) => idx.has(a) && idx.has(b))
+        .map(([a, b]): [number, number] => [idx.get(a)!, idx.get(b)!]);
+    return {
+      present: cells(shownWitness?.present ?? []),
+      missing: cells(shownWitness?.missing ?? []),
+    };
+  }, [shownWitness, UArr]);
+  const digraphPivot = digraphNode !== null ? UArr.indexOf(digraphNode) : -1;
+
+  // Cerradura elegida de R (los pares agregados se resaltan en la matriz)
+  const [closureKind, setClosureKind] = useState<ClosureKind | null>(null);
+  const relationClosure = useMemo(
+    () => (closureKind ? closureOf(closureKind, UArr, relationMatrix) : null),
+    [closureKind, UArr, relationMatrix]
+  );
+
+  // Reparación de R hacia la clase elegida (diff sobre la matriz)
+  const [repairKind, setRepairKind] = useState<RepairKind>("partialOrder");
+  const relationRepair = useMemo(
+    () => repairRelation(repairKind, UArr, relationMatrix),
+    [repairKind, UArr, relationMatrix]
+  );
+  const repairCells = (cells: [number, number][]) =>
+    cells.map(([i, j]) => `(${UArr[i]},${UArr[j]})`).join(", ");
+
+  // Clases de equivalencia (solo si R es de equivalencia) y partición escrita a mano
+  const equivClasses = useMemo(
+    () => (isEquivalence ? equivalenceClasses(UArr, relationMatrix) : null),
+    [isEquivalence, UArr, relationMatrix]
+  );
+  const [partitionText, setPartitionText] = useState("{1,2,3}{4,5,6}{7,8,9}");
+  const partitionParse = useMemo(() => parsePartition(partitionText, U), [partitionText, U]);
+
+  // R a partir de una regla P(a,b) evaluada en U × U (puede usar U y los conjuntos con nombre)
+  const [ruleText, setRuleText] = useState(relationTemplates[0].rule);
+  const ruleResult = useMemo(
+    () =>
+      relationFromRule(ruleText, UArr, (name) =>
+        name === "U" ? U : namedSets.find((s) => s.name === name)?.set
+      ),
+    [ruleText, UArr, U, namedSets]
+  );
+
+  // ——— Segunda relación S y operaciones entre relaciones ———
+  const [SText, setSText] = useState("(1,2),(2,3)");
+  const sPairs = useMemo(() => parseRelation(SText), [SText]);
+  const sMatrix = useMemo(() => buildRelationMatrix(UArr, sPairs), [UArr, sPairs]);
+  const sDiagnostics = useMemo(
+    () => diagnoseRelation(SText, U, universeIsList),
+    [SText, U, universeIsList]
+  );
+  const [relOpKind, setRelOpKind] = useState<RelationOp>("compose");
+  // Qué relación va primero: con "R", la composición es S ∘ R y la diferencia R − S
+  const [relFirst, setRelFirst] = useState<"R" | "S">("R");
+  const [relPowerText, setRelPowerText] = useState("2");
+  const relPowerValue = /^\d+$/.test(relPowerText.trim()) ? Number(relPowerText) : null;
+  const relPower =
+    relPowerValue !== null && relPowerValue <= MAX_RELATION_POWER ? relPowerValue : null;
+  const relOperands = useMemo(() => {
+    const R = { name: "R", matrix: relationMatrix };
+    const S = { name: "S", matrix: sMatrix };
+    return relFirst === "R" ? [R, S] : [S, R];
+  }, [relFirst, relationMatrix, sMatrix]);
+  const relOpResult = useMemo(
+    () =>
+      relPower === null && relOpKind === "power"
+        ? null
+        : relationOp(relOpKind, relOperands[0], relOperands[1], relPower ?? 0),
+    [relOpKind, relOperands, relPower]
+  );
+  // Texto canónico a partir de una matriz editada; los pares con elementos fuera de U se conservan
+  const pairsFromMatrix = (M: number[][], previous: Pair[]) =>
+    formatPairs([
+      ...matrixToPairs(UArr, M),
+      ...previous.filter(([a, b]) => !U.has(a) || !U.has(b)),
+    ]);
+  // ——— Contar y explorar relaciones sobre U (solo universos pequeños) ———
+  const ENUM_PAGE_SIZE = 12;
+  const [enumFamily, setEnumFamily] = useState<RelationFamily>("all");
+  const [enumFilter, setEnumFilter] = useState<PropertyFilter>({});
+  const [enumPage, setEnumPage] = useState(0);
+  const enumTooBig = UArr.length > relationFamilies[enumFamily].maxSize;
+  const enumeration = useMemo(
+    () =>
+      enumTooBig
+        ? null
+        : enumerateRelations(
+            enumFamily,
+            UArr.length,
+            enumFilter,
+            enumPage * ENUM_PAGE_SIZE,
+            ENUM_PAGE_SIZE
+          ),
+    [enumTooBig, enumFamily, UArr, enumFilter, enumPage]
+  );
+  // Con alguna propiedad exigida en "no" ya no hay fórmula que comparar
+  const enumKnown = Object.values(enumFilter).includes(false)
+    ? null
+    : knownCount(
+        [
+          ...relationFamilies[enumFamily].requires,
+          ...(Object.keys(enumFilter) as RelationProperty[]),
+        ],
+        UArr.length
+      );
+  const enumPages = enumeration ? Math.max(1, Math.ceil(enumeration.total / ENUM_PAGE_SIZE)) : 1;
+
   const hasseAdjacency = useMemo(
     () => buildAdjacencyMatrix(UArr, hasseCovers),
     [UArr, hasseCovers]
   );
 
+  // ——— Funciones f : X → Y (y g : Y → Z para componer) ———
+  const [XText, setXText] = useState("1,2,3,4");
+  const [YText, setYText] = useState("a,b,c");
+  const [FText, setFText] = useState("(1,a),(2,b),(3,c),(4,a)");
+  const [ZText, setZText] = useState("x,y");
+  const [GText, setGText] = useState("(a,x),(b,y),(c,y)");
+  const [imageText, setImageText] = useState("1,4");
+  const [preimageText, setPreimageText] = useState("a");
+  const funcX = useMemo(() => parseSetInput(XText, () => undefined), [XText]);
+  const funcY = useMemo(() => parseSetInput(YText, () => undefined), [YText]);
+  const funcZ = useMemo(() => parseSetInput(ZText, () => undefined), [ZText]);
+  const fPairs = useMemo(() => parseRelation(FText), [FText]);
+  const gPairs = useMemo(() => parseRelation(GText), [GText]);
+  const fDiagnostics = useMemo(
+    () => diagnoseRelation(FText, new Set([...funcX.elems, ...funcY.elems]), false, "X ∪ Y"),
+    [FText, funcX, funcY]
+  );
+  const gDiagnostics = useMemo(
+    () => diagnoseRelation(GText, new Set([...funcY.elems, ...funcZ.elems]), false, "Y ∪ Z"),
+    [GText, funcY, funcZ]
+  );
+  const fReport = useMemo(
+    () => analyzeFunction(funcX.elems, funcY.elems, fPairs),
+    [funcX, funcY, fPairs]
+  );
+  // A ⊆ X y B ⊆ Y pueden escribirse por comprensión sobre X o Y
+  const imageSet = useMemo(
+    () => parseSetInput(imageText, (name) => (name === "X" ? new Set(funcX.elems) : undefined)),
+    [imageText, funcX]
+  );
+  const preimageSet = useMemo(
+    () =>
+      parseSetInput(preimageText, (name) => (name === "Y" ? new Set(funcY.elems) : undefined)),
+    [preimageText, funcY]
+  );
+  const fInverse = useMemo(() => inverseRelation(fPairs), [fPairs]);
+  const inverseReport = useMemo(
+    () => analyzeFunction(funcY.elems, funcX.elems, fInverse),
+    [funcY, funcX, fInverse]
+  );
+  const gReport = useMemo(
+    () => analyzeFunction(funcY.elems, funcZ.elems, gPairs),
+    [funcY, funcZ, gPairs]
+  );
+  const gfPairs = useMemo(() => composeRelations(fPairs, gPairs), [fPairs, gPairs]);
+  const gfReport = useMemo(
+    () => analyzeFunction(funcX.elems, funcZ.elems, gfPairs),
+    [funcX, funcZ, gfPairs]
+  );
+
+  const functionDetail = fReport.isFunction
+    ? "Cada x ∈ X tiene exactamente una imagen en Y."
+    : [
+        ...fReport.outside.map(([a, b]) =>
+          funcX.elems.includes(a) ? `(${a},${b}): ${b} ∉ Y.` : `(${a},${b}): ${a} ∉ X.`
+        ),
+        ...fReport.undefinedAt.map((x) => `${x} no tiene imagen.`),
+        ...fReport.multiValued.map(({ x, ys }) => `${x} tiene varias imágenes: ${ys.join(", ")}.`),
+      ].join(" ");
+  const injectiveDetail = fReport.injective
+    ? "Elementos distintos de X tienen imágenes distintas."
+    : fReport.collisions
+        .map(({ y, xs }) => xs.map((x) => `f(${x})`).join(" = ") + ` = ${y}`)
+        .join("; ") + ".";
+  const surjectiveDetail = fReport.surjective
+    ? "Todo y ∈ Y es imagen de algún x ∈ X."
+    : `${fReport.unreached.join(", ")} ${
+        fReport.unreached.length === 1 ? "no es imagen" : "no son imagen"
+      } de ningún x ∈ X.`;
+  const bijectiveDetail = fReport.bijective
+    ? "Es inyectiva y sobreyectiva: tiene inversa f⁻¹ : Y → X."
+    : !fReport.isFunction
+    ? "R no es función de X en Y."
+    : `Falla: ${[
+        fReport.injective ? null : "no es inyectiva",
+        fReport.surjective ? null : "no es sobreyectiva",
+      ]
+        .filter(Boolean)
+        .join(" y ")}.`;
+
   // ——— Álgebra modular (estado) ———
   const [M_n, setM_n] = useState("12");   // módulo
   const [M_a, setM_a] = useState("7");    // a
@@ -653,7 +1500,7 @@ export default function Page() {
     <main className="min-h-screen p-6 md:p-10 bg-slate-900 text-slate-100">
       <div className="max-w-6xl mx-auto">
         {/* Menú de pestañas */}
-        <div className="flex gap-2 mb-6">
+        <div className="flex flex-wrap gap-2 mb-6">
           <button
             onClick={() => setTab("sets")}
             className={
@@ -676,6 +1523,17 @@ export default function Page() {
           >
             Relaciones (pares ordenados)
           </button>
+          <button
+            onClick={() => setTab("functions")}
+            className={
+              "px-4 py-2 rounded-full text-sm border transition " +
+              (tab === "functions"
+                ? "bg-emerald-400 text-slate-900 border-emerald-300"
+                : "bg-slate-800 text-slate-200 border-slate-600 hover:border-emerald-300")
+            }
+          >
+            Funciones X → Y
+          </button>
           <button
             onClick={() => setTab("hasse")}
             className={
@@ -704,325 +1562,289 @@ export default function Page() {
         {tab === "sets" && (
           <div className="grid lg:grid-cols-2 gap-8">
             {/* Panel izquierdo: Diagrama de Venn */}
-            <section className="bg-slate-800/60 rounded-2xl p-5 shadow-xl">
-              <h1 className="text-2xl font-semibold mb-4">
-                Diagrama de Venn (A, B, C)
-              </h1>
-              <div className="w-full flex justify-center">
-                <svg viewBox="0 0 600 460" className="w-full max-w-[720px]">
-                  {/* Círculos base */}
-                  <Circle {...circles.A} />
-                  <Circle {...circles.B} />
-                  <Circle {...circles.C} />
-
-                  {/* Etiquetas */}
-                  <text
-                    x={circles.A.cx - 140}
-                    y={circles.A.cy - 60}
-                    className="fill-slate-200 text-[20px] font-semibold"
-                  >
-                    A
-                  </text>
-                  <text
-                    x={circles.B.cx + 120}
-                    y={circles.B.cy - 60}
-                    className="fill-slate-200 text-[20px] font-semibold"
-                  >
-                    B
-                  </text>
-                  <text
-                    x={circles.C.cx - 10}
-                    y={circles.C.cy + 120}
-                    className="fill-slate-200 text-[20px] font-semibold"
-                  >
-                    C
-                  </text>
-
-                  {/* Regiones con clipPath */}
-                  <defs>
-                    <clipPath id="clipA">
-                      <circle {...(circles.A as any)} />
-                    </clipPath>
-                    <clipPath id="clipB">
-                      <circle {...(circles.B as any)} />
-                    </clipPath>
-                    <clipPath id="clipC">
-                      <circle {...(circles.C as any)} />
-                    </clipPath>
-                  </defs>
-
-                  {/* Solo A */}
-                  <g clipPath="url(#clipA)">
-                    <rect
-                      x="0"
-                      y="0"
-                      width="600"
-                      height="420"
-                      className={"pointer-events-none " + regionFill.onlyA}
-                    />
-                  </g>
-                  <g clipPath="url(#clipA)">
-                    <g clipPath="url(#clipB)">
-                      <rect
-                        x="0"
-                        y="0"
-                        width="600"
-                        height="420"
-                        className="fill-slate-900/60"
-                      />
-                    </g>
-                    <g clipPath="url(#clipC)">
-                      <rect
-                        x="0"
-                        y="0"
-                        width="600"
-                        height="420"
-                        className="fill-slate-900/60"
-                      />
-                    </g>
-                  </g>
-
-                  {/* Solo B */}
-                  <g clipPath="url(#clipB)">
-                    <rect
-                      x="0"
-                      y="0"
-                      width="600"
-                      height="420"
-                      className={"pointer-events-none " + regionFill.onlyB}
-                    />
-                  </g>
-                  <g clipPath="url(#clipB)">
-                    <g clipPath="url(#clipA)">
-                      <rect
-                        x="0"
-                        y="0"
-                        width="600"
-                        height="420"
-                        className="fill-slate-900/60"
-                      />
-                    </g>
-                    <g clipPath="url(#clipC)">
-                      <rect
-                        x="0"
-                        y="0"
-                        width="600"
-                        height="420"
-                        className="fill-slate-900/60"
-                      />
-                    </g>
-                  </g>
-
-                  {/* Solo C */}
-                  <g clipPath="url(#clipC)">
-                    <rect
-                      x="0"
-                      y="0"
-                      width="600"
-                      height="420"
-                      className={"pointer-events-none " + regionFill.onlyC}
+            {calcMode === "intervals" ? (
+              <section className="bg-slate-800/60 rounded-2xl p-5 shadow-xl">
+                <h1 className="text-2xl font-semibold mb-4">
+                  Recta numérica ({setNames.join(", ")})
+                </h1>
+                <div className="w-full flex justify-center">
+                  <NumberLine rows={intervalRows} />
+                </div>
+                <p className="text-xs text-slate-400 mt-2">
+                  ● extremo cerrado · ○ extremo abierto · ▸ sigue hasta ±∞
+                </p>
+                <div className="grid md:grid-cols-2 gap-3 mt-4 text-sm">
+                  {intervalRows.map((r) => (
+                    <Segment
+                      key={r.label}
+                      title={`${r.label} (longitud ${formatEndpoint(intervalLength(r.set))})`}
+                      items={formatIntervalParts(r.set)}
+                      highlighted={r.highlight}
                     />
-                  </g>
-                  <g clipPath="url(#clipC)">
-                    <g clipPath="url(#clipA)">
-                      <rect
-                        x="0"
-                        y="0"
-                        width="600"
-                        height="420"
-                        className="fill-slate-900/60"
-                      />
-                    </g>
-                    <g clipPath="url(#clipB)">
-                      <rect
-                        x="0"
-                        y="0"
-                        width="600"
-                        height="420"
-                        className="fill-slate-900/60"
+                  ))}
+                </div>
+              </section>
+            ) : (
+              <section className="bg-slate-800/60 rounded-2xl p-5 shadow-xl">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                  <h1 className="text-2xl font-semibold">
+                    Diagrama de Venn ({setNames.join(", ")})
+                  </h1>
+                  <Segmented
+                    value={vennMode}
+                    onChange={setVennMode}
+                    options={[
+                      { label: "Elementos", value: "elements" },
+                      { label: "Cardinalidades", value: "counts" },
+                    ]}
+                  />
+                </div>
+
+                {vennMode === "elements" && (
+                  <>
+                    <div className="flex justify-end mb-2">
+                      <Segmented
+                        value={vennShape}
+                        onChange={setVennShape}
+                        options={[
+                          { label: "Venn", value: "venn" },
+                          { label: "Euler proporcional", value: "euler" },
+                        ]}
                       />
-                    </g>
-                  </g>
-
-                  {/* A∩B sin C */}
-                  <g clipPath="url(#clipA)">
-                    <g clipPath="url(#clipB)">
-                      <rect
-                        x="0"
-                        y="0"
-                        width="600"
-                        height="420"
-                        className={regionFill.AandB}
+                    </div>
+                    <div className="w-full flex justify-center">
+                      {vennShape === "euler" ? (
+                        <EulerDiagram names={setNames} regions={displayRegions} highlight={vennHighlight} />
+                      ) : (
+                        <VennDiagram names={setNames} regions={displayRegions} highlight={vennHighlight} />
+                      )}
+                    </div>
+                    <label className="inline-flex items-center gap-2 text-sm cursor-pointer mt-2">
+                      <input
+                        type="checkbox"
+                        checked={highlightResult}
+                        onChange={(e) => setHighlightResult(e.target.checked)}
                       />
-                    </g>
-                  </g>
-                  <g clipPath="url(#clipA)">
-                    <g clipPath="url(#clipB)">
-                      <g clipPath="url(#clipC)">
-                        <rect
-                          x="0"
-                          y="0"
-                          width="600"
-                          height="420"
-                          className="fill-slate-900/60"
+                      <span className="text-slate-300">
+                        Resaltar las regiones de{" "}
+                        <span className="font-mono">
+                          {exprParse.ok ? formatSetExpr(exprParse.ast) : exprText}
+                        </span>
+                      </span>
+                    </label>
+
+                    {/* Listado de segmentos */}
+                    <div className="grid md:grid-cols-2 gap-3 mt-4 text-sm">
+                      {regionOrder(displayRegions).map((r) => (
+                        <Segment
+                          key={r.mask}
+                          title={regionLabel(r.mask, setNames)}
+                          items={r.items}
+                          highlighted={vennHighlight?.has(r.mask)}
                         />
-                      </g>
-                    </g>
-                  </g>
-
-                  {/* A∩C sin B */}
-                  <g clipPath="url(#clipA)">
-                    <g clipPath="url(#clipC)">
-                      <rect
-                        x="0"
-                        y="0"
-                        width="600"
-                        height="420"
-                        className={regionFill.AandC}
+                      ))}
+                    </div>
+                  </>
+                )}
+
+                {vennMode === "counts" && (
+                  <>
+                    <div className="w-full flex justify-center">
+                      <VennDiagram
+                        names={setNames}
+                        regions={regions}
+                        highlight={countQuery?.regions}
+                        regionText={(mask) => {
+                          const v = countSolution.counts[mask];
+                          return v === null ? "?" : String(v);
+                        }}
                       />
-                    </g>
-                  </g>
-                  <g clipPath="url(#clipA)">
-                    <g clipPath="url(#clipC)">
-                      <g clipPath="url(#clipB)">
-                        <rect
-                          x="0"
-                          y="0"
-                          width="600"
-                          height="420"
-                          className="fill-slate-900/60"
-                        />
-                      </g>
-                    </g>
-                  </g>
-
-                  {/* B∩C sin A */}
-                  <g clipPath="url(#clipB)">
-                    <g clipPath="url(#clipC)">
-                      <rect
-                        x="0"
-                        y="0"
-                        width="600"
-                        height="420"
-                        className={regionFill.BandC}
+                    </div>
+
+                    <div className="grid md:grid-cols-2 gap-4 mt-4">
+                      <TextArea
+                        label="Datos conocidos (uno por renglón)"
+                        value={countText}
+                        setValue={setCountText}
+                        helper="Ej. |A ∩ B| = 12, |A ∪ B ∪ C| = 90, |U| = 100"
                       />
-                    </g>
-                  </g>
-                  <g clipPath="url(#clipB)">
-                    <g clipPath="url(#clipC)">
-                      <g clipPath="url(#clipA)">
-                        <rect
-                          x="0"
-                          y="0"
-                          width="600"
-                          height="420"
-                          className="fill-slate-900/60"
-                        />
-                      </g>
-                    </g>
-                  </g>
-
-                  {/* Triple intersección */}
-                  <g clipPath="url(#clipA)">
-                    <g clipPath="url(#clipB)">
-                      <g clipPath="url(#clipC)">
-                        <rect
-                          x="0"
-                          y="0"
-                          width="600"
-                          height="420"
-                          className={regionFill.AandBandC}
-                        />
-                      </g>
-                    </g>
-                  </g>
-
-                  {/* Números dentro de cada región */}
-                  <g className="font-medium fill-slate-100">
-                    {(() => {
-                      const lines = (arr: string[]) => {
-                        const s = arr.join(", ");
-                        const chunks: string[] = [];
-                        let cur = "";
-                        for (const ch of s.split("")) {
-                          cur += ch;
-                          if (cur.length >= 22 && ch === " ") {
-                            chunks.push(cur);
-                            cur = "";
-                          }
-                        }
-                        if (cur) chunks.push(cur);
-                        return chunks;
-                      };
-                      const texts = [
-                        { x: 120, y: 170, items: buckets.onlyA },
-                        { x: 480, y: 170, items: buckets.onlyB },
-                        { x: 300, y: 360, items: buckets.onlyC },
-                        { x: 290, y: 120, items: buckets.AandB },
-                        { x: 190, y: 240, items: buckets.AandC },
-                        { x: 390, y: 240, items: buckets.BandC },
-                        { x: 300, y: 200, items: buckets.AandBandC },
-                      ];
-
-                      return texts.map((t, i) => (
-                        <text key={i} x={t.x} y={t.y} className="text-[12px]">
-                          {lines(t.items).map((ln, j) => (
-                            <tspan key={j} x={t.x} dy={j === 0 ? 0 : 14}>
-                              {ln}
-                            </tspan>
-                          ))}
-                        </text>
-                      ));
-                    })()}
-                  </g>
-                </svg>
-              </div>
-
-              {/* Listado de segmentos */}
-              <div className="grid md:grid-cols-2 gap-3 mt-4 text-sm">
-                <Segment title="A solamente" items={buckets.onlyA} />
-                <Segment title="B solamente" items={buckets.onlyB} />
-                <Segment title="C solamente" items={buckets.onlyC} />
-                <Segment title="A ∩ B (sin C)" items={buckets.AandB} />
-                <Segment title="A ∩ C (sin B)" items={buckets.AandC} />
-                <Segment title="B ∩ C (sin A)" items={buckets.BandC} />
-                <Segment title="A ∩ B ∩ C" items={buckets.AandBandC} />
-                <Segment
-                  title="Fuera (U − (A ∪ B ∪ C))"
-                  items={buckets.outside}
-                />
-              </div>
-            </section>
+                      <div>
+                        <label className="block">
+                          <span className="text-sm text-slate-300">Pregunta</span>
+                          <input
+                            value={countQueryText}
+                            onChange={(e) => setCountQueryText(e.target.value)}
+                            spellCheck={false}
+                            className="mt-1 w-full rounded-xl bg-slate-900/50 border border-slate-700 px-3 py-2 font-mono outline-none focus:ring-2 focus:ring-emerald-400"
+                          />
+                          <span className="text-xs text-slate-400">
+                            Ej. |C − (A ∪ B)| (cuántos están solo en C)
+                          </span>
+                        </label>
+                        {countQuery && (
+                          <p className="mt-2 text-sm">
+                            <span className="font-mono">|{countQuery.label}|</span> ={" "}
+                            {countQuery.value === null ? (
+                              <span className="text-amber-300">
+                                no se puede determinar con estos datos
+                              </span>
+                            ) : (
+                              <span className="font-semibold text-emerald-300">
+                                {countQuery.value}
+                              </span>
+                            )}
+                          </p>
+                        )}
+                        {countQueryError && (
+                          <p className="mt-2 text-xs text-rose-300">{countQueryError}</p>
+                        )}
+                      </div>
+                    </div>
+
+                    {countParsed.errors.length > 0 && (
+                      <ul className="mt-2 text-xs text-rose-300 list-disc list-inside">
+                        {countParsed.errors.map((e) => (
+                          <li key={e.line}>
+                            <span className="font-mono">{e.text}</span>: {e.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    <div className="rounded-xl border bg-slate-900/50 p-3 mt-4 text-sm">
+                      <div className="flex items-center justify-between mb-1">
+                        <span className="font-medium">Sistema de ecuaciones</span>
+                        <span
+                          className={`text-xs px-2 py-1 rounded-full border ${
+                            countStatus === "ok"
+                              ? "border-emerald-400 text-emerald-300"
+                              : countStatus === "underdetermined"
+                              ? "border-amber-400 text-amber-300"
+                              : "border-rose-400 text-rose-300"
+                          }`}
+                        >
+                          {countStatus === "ok"
+                            ? "Determinado"
+                            : countStatus === "underdetermined"
+                            ? "Faltan datos"
+                            : "Inconsistente"}
+                        </span>
+                      </div>
+                      <p className="text-slate-300 text-xs">
+                        {countParsed.constraints.length} dato(s), rango {countSolution.rank} de{" "}
+                        {countSolution.unknowns} regiones.
+                        {countStatus === "underdetermined" &&
+                          ` Quedan ${countSolution.unknowns - countSolution.rank} grado(s) de libertad.`}
+                        {countSolution.conflictLine !== null &&
+                          ` El dato "${
+                            countParsed.constraints.find((c) => c.line === countSolution.conflictLine)
+                              ?.text
+                          }" contradice a los anteriores.`}
+                        {countSolution.invalidRegions.length > 0 &&
+                          ` Hay regiones con cantidad negativa o no entera: ${countSolution.invalidRegions
+                            .map((m) => regionLabel(m, setNames))
+                            .join("; ")}.`}
+                      </p>
+                    </div>
+
+                    <div className="grid md:grid-cols-2 gap-3 mt-4 text-sm">
+                      {regionOrder(regions).map((r) => {
+                        const v = countSolution.counts[r.mask];
+                        return (
+                          <div
+                            key={r.mask}
+                            className="rounded-xl border border-slate-700 bg-slate-900/40 p-3 flex items-center justify-between"
+                          >
+                            <h4 className="font-medium text-slate-200 text-sm">
+                              {regionLabel(r.mask, setNames)}
+                            </h4>
+                            <span
+                              className={
+                                "font-mono " +
+                                (v === null
+                                  ? "text-slate-400"
+                                  : countSolution.invalidRegions.includes(r.mask)
+                                  ? "text-rose-300"
+                                  : "text-emerald-300")
+                              }
+                            >
+                              {v === null ? "?" : v}
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </>
+                )}
+              </section>
+            )}
 
             {/* Panel derecho: Editor + De Morgan */}
             <section className="bg-slate-800/60 rounded-2xl p-5 shadow-xl">
-              <h2 className="text-xl font-semibold">Editor de conjuntos</h2>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <h2 className="text-xl font-semibold">Editor de conjuntos</h2>
+                <Segmented
+                  value={calcMode}
+                  onChange={setCalcMode}
+                  options={[
+                    { label: "Conjuntos", value: "sets" },
+                    { label: "Multiconjuntos", value: "multisets" },
+                    { label: "Difusos", value: "fuzzy" },
+                    { label: "Intervalos", value: "intervals" },
+                  ]}
+                />
+              </div>
               <p className="text-slate-300 mb-3 text-sm">
-                Escribe elementos separados por coma, espacio o salto de línea.
+                Escribe elementos separados por coma, espacio o salto de línea, rangos
+                como 1..100 o 1..100 step 3, o un predicado como {"{x ∈ U | x mod 3 = 0}"}.
+                Los elementos pueden ser tuplas o conjuntos: {"{1, {2,3}, ∅, (1,2)}"}.
+                {calcMode === "multisets" &&
+                  " Como multiconjunto, los repetidos cuentan: 1,1,2 o 1×2,2."}
+                {calcMode === "fuzzy" &&
+                  " En modo difuso, elemento:grado (p. ej. 3:0.7); sin grado vale 1."}
+                {calcMode === "intervals" &&
+                  " Con intervalos reales escribe [0,3) ∪ (5,∞), puntos como {7} o ℝ; U vacío es ℝ."}
               </p>
               <div className="grid md:grid-cols-2 gap-4">
                 <TextArea
                   label="Universo U"
                   value={UText}
                   setValue={setUText}
-                  helper="Ej. 1,2,3,4,5 …"
+                  helper="Ej. 1,2,3,4,5 · 1..100 · 1..100 step 3 · {x ∈ 1..50 | x es primo}"
+                  error={
+                    intervalSets
+                      ? intervalSets.universe.error
+                      : setParse.universe.error ?? fuzzySets?.universe.error
+                  }
+                  diagnostics={universeDiagnostics}
+                  onFix={(fix) => applyFix(fix, UText, setUText)}
                 />
                 <div className="grid grid-cols-1 gap-4">
-                  <TextArea
-                    label="Conjunto A"
-                    value={AText}
-                    setValue={setAText}
-                  />
-                  <TextArea
-                    label="Conjunto B"
-                    value={BText}
-                    setValue={setBText}
-                  />
-                  <TextArea
-                    label="Conjunto C"
-                    value={CText}
-                    setValue={setCText}
-                  />
+                  {setInputs.map((s, i) => (
+                    <SetEditor
+                      key={s.id}
+                      input={s}
+                      nameError={setNameErrors[i]}
+                      inputError={
+                        intervalSets
+                          ? intervalSets.sets[i].error
+                          : setParse.sets[i].error ?? fuzzySets?.sets[i].error ?? null
+                      }
+                      diagnostics={setDiagnostics[i]}
+                      onFix={(fix) =>
+                        applyFix(fix, s.text, (text) => updateSetInput(s.id, { text }))
+                      }
+                      canRemove={setInputs.length > 1}
+                      onChange={(patch) => updateSetInput(s.id, patch)}
+                      onRemove={() => removeSetInput(s.id)}
+                    />
+                  ))}
+                  <button
+                    onClick={addSetInput}
+                    className="px-3 py-2 rounded-lg bg-slate-900 text-slate-100 text-sm font-medium hover:bg-slate-700 transition border border-slate-600"
+                  >
+                    + Agregar conjunto
+                  </button>
                 </div>
               </div>
 
@@ -1032,81 +1854,432 @@ export default function Page() {
               <div className="flex flex-wrap items-center gap-3 mb-3">
                 <Select
                   value={op}
-                  onChange={(v: Op) => setOp(v)}
+                  onChange={(v: Op) => applyPreset(v, left, right)}
                   options={[
                     { label: "Unión (L ∪ R)", value: "union" },
                     { label: "Intersección (L ∩ R)", value: "intersection" },
                     { label: "Diferencia (L − R)", value: "difference" },
                     { label: "Complemento (L′)", value: "complement" },
+                    { label: "Diferencia simétrica (L △ R)", value: "symdiff" },
+                    ...(calcMode === "intervals"
+                      ? []
+                      : [
+                          { label: "Producto cartesiano (L × R)", value: "product" as Op },
+                          { label: "Conjunto potencia P(L)", value: "powerset" as Op },
+                        ]),
+                    ...(calcMode === "multisets"
+                      ? [{ label: "Suma (L ⊎ R)", value: "sum" as Op }]
+                      : []),
                   ]}
                 />
                 <Select
                   value={left}
-                  onChange={setLeft}
-                  options={[
-                    { label: "A", value: "A" },
-                    { label: "B", value: "B" },
-                    { label: "C", value: "C" },
-                    { label: "A′", value: "A'" },
-                    { label: "B′", value: "B'" },
-                    { label: "C′", value: "C'" },
-                  ]}
+                  onChange={(v) => applyPreset(op, v, right)}
+                  options={operandOptions}
                 />
-                {op !== "complement" && (
+                {op !== "complement" && op !== "powerset" && (
                   <Select
                     value={right}
-                    onChange={setRight}
-                    options={[
-                      { label: "A", value: "A" },
-                      { label: "B", value: "B" },
-                      { label: "C", value: "C" },
-                      { label: "A′", value: "A'" },
-                      { label: "B′", value: "B'" },
-                      { label: "C′", value: "C'" },
-                    ]}
+                    onChange={(v) => applyPreset(op, left, v)}
+                    options={operandOptions}
                   />
                 )}
               </div>
 
+              <label className="block mb-3">
+                <span className="text-sm text-slate-300">Expresión</span>
+                <input
+                  value={exprText}
+                  onChange={(e) => setExprText(e.target.value)}
+                  spellCheck={false}
+                  className="mt-1 w-full rounded-xl bg-slate-900/50 border border-slate-700 px-3 py-2 font-mono outline-none focus:ring-2 focus:ring-emerald-400"
+                />
+                <span className="text-xs text-slate-400">
+                  Ej. ((A ∪ B)′ ∩ C) − (A △ B). Alias: u (∪), n (∩), - (−), ^ (△), &apos; (′)
+                  {calcMode === "multisets" && ", + (⊎)"}
+                </span>
+              </label>
+
+              {exprEval && !exprEval.ok && (
+                <div className="mb-3">
+                  <ExprErrorView input={exprText} error={exprEval} />
+                </div>
+              )}
+
               <div className="bg-slate-900/50 rounded-xl p-4 border border-slate-700 mb-5">
                 <div className="flex items-center gap-2 mb-2">
                   {pill("Resultado")}
-                  {chip(`${resultSet.size} elemento(s)`)}
+                  {intervalEval?.ok
+                    ? chip(
+                        `${formatIntervalSet(intervalEval.value)}, longitud ${formatEndpoint(
+                          intervalLength(intervalEval.value)
+                        )}`
+                      )
+                    : multiEval?.ok
+                    ? chip(
+                        `${multisetSize(multiEval.value)} elemento(s), ${resultSet.size} distinto(s)`
+                      )
+                    : fuzzyEval?.ok
+                    ? chip(
+                        `Σμ = ${formatDegree(
+                          Array.from(fuzzyEval.value.values()).reduce((a, b) => a + b, 0)
+                        )}, soporte de ${resultSet.size}`
+                      )
+                    : !intervalEval && chip(`${resultSet.size} elemento(s)`)}
+                  {resultPairs && (
+                    <button
+                      onClick={() => {
+                        setRText(resultPairs.map(([a, b]) => `(${a},${b})`).join(","));
+                        setTab("relations");
+                      }}
+                      className="ml-auto text-xs px-2 py-1 rounded-full border border-emerald-400 text-emerald-300 hover:bg-emerald-400/10 transition"
+                    >
+                      Usar como relación R
+                    </button>
+                  )}
                 </div>
-                <div className="flex flex-wrap gap-2">
-                  {Array.from(resultSet).map((x) => (
+                {cardinalityNote && (
+                  <p className="text-xs text-slate-400 font-mono mb-2">{cardinalityNote}</p>
+                )}
+                <PagedChips
+                  items={
+                    intervalEval?.ok
+                      ? formatIntervalParts(intervalEval.value)
+                      : multiEval?.ok
+                      ? formatMultiset(multiEval.value)
+                      : fuzzyEval?.ok
+                      ? formatFuzzySet(fuzzyEval.value)
+                      : Array.from(resultSet)
+                  }
+                  renderItem={(x) => (
                     <span
                       key={x}
-                      className={`px-2 py-1 rounded-md bg-slate-700/60 border ${
-                        isInResult(x) ? "ring-1 ring-emerald-300" : ""
+                      className={`px-2 py-1 rounded-md bg-slate-700/60 border font-mono ${
+                        isInResult(
+                          multiEval
+                            ? splitMultiplicity(x)[0]
+                            : fuzzyEval
+                            ? splitDegree(x)[0]
+                            : x
+                        )
+                          ? "ring-1 ring-emerald-300"
+                          : ""
                       }`}
                     >
                       {x}
                     </span>
-                  ))}
-                  {resultSet.size === 0 && (
-                    <span className="text-slate-400">∅ (vacío)</span>
                   )}
-                </div>
+                />
               </div>
 
-              <h3 className="text-lg font-semibold mb-2">Leyes de De Morgan</h3>
-              <div className="space-y-3">
-                <DeMorganRow
-                  lhs="(A ∪ B)′"
-                  rhs="A′ ∩ B′"
-                  ok={demorgan1_ok}
-                  setA={demorgan1_left}
-                  setB={demorgan1_right}
-                />
-                <DeMorganRow
-                  lhs="(A ∩ B)′"
-                  rhs="A′ ∪ B′"
-                  ok={demorgan2_ok}
-                  setA={demorgan2_left}
-                  setB={demorgan2_right}
+              {fuzzySets && (
+                <div className="bg-slate-900/50 rounded-xl p-4 border border-slate-700 mb-5 space-y-4">
+                  <div className="flex flex-wrap items-center gap-3">
+                    {pill("Conjuntos difusos")}
+                    <Select
+                      value={fuzzyNormId}
+                      onChange={setFuzzyNormId}
+                      options={normPairs.map((p) => ({ label: `∩/∪: ${p.name}`, value: p.id }))}
+                    />
+                    <Select
+                      value={fuzzyComplementId}
+                      onChange={setFuzzyComplementId}
+                      options={fuzzyComplements.map((c) => ({
+                        label: `′: ${c.name}`,
+                        value: c.id,
+                      }))}
+                    />
+                  </div>
+
+                  <div>
+                    <h4 className="text-sm font-medium text-slate-200 mb-2">Grados de pertenencia</h4>
+                    <MembershipBars
+                      elems={Array.from(U).sort(compareElems)}
+                      series={[
+                        ...usableSets.map((s) => ({
+                          label: s.name,
+                          set: fuzzySets.sets[setNames.indexOf(s.name)].set,
+                        })),
+                        ...(fuzzyEval?.ok && exprParse.ok
+                          ? [{ label: formatSetExpr(exprParse.ast), set: fuzzyEval.value }]
+                          : []),
+                      ]}
+                    />
+                  </div>
+
+                  {fuzzyEval?.ok && (
+                    <div>
+                      <h4 className="text-sm font-medium text-slate-200 mb-2">Cortes α del resultado</h4>
+                      {alphaCuts(fuzzyEval.value).length === 0 && (
+                        <p className="text-xs text-slate-400">El resultado es vacío.</p>
+                      )}
+                      <ul className="space-y-1 text-xs font-mono text-slate-300">
+                        {alphaCuts(fuzzyEval.value).map(({ alpha, elems }) => (
+                          <li key={alpha}>
+                            α = {formatDegree(alpha)}: {"{"}
+                            {elems.join(", ")}
+                            {"}"}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {fuzzyChecks && (
+                    <div>
+                      <h4 className="text-sm font-medium text-slate-200 mb-2">
+                        De Morgan con complemento {fuzzyComplement.name}
+                      </h4>
+                      <div className="space-y-1 text-xs">
+                        {fuzzyChecks.rows.map((r) =>
+                          (
+                            [
+                              [
+                                "union",
+                                (a: string, b: string) => `(${a} ∪ ${b})′ = ${a}′ ∩ ${b}′`,
+                                r.unionLaw,
+                              ],
+                              [
+                                "intersection",
+                                (a: string, b: string) => `(${a} ∩ ${b})′ = ${a}′ ∪ ${b}′`,
+                                r.intersectionLaw,
+                              ],
+                            ] as const
+                          ).map(([id, law, res]) => (
+                            <div
+                              key={r.pair.id + id}
+                              className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-slate-700 px-2 py-1"
+                            >
+                              <span className="text-slate-300">
+                                {r.pair.name}:{" "}
+                                <span className="font-mono">
+                                  {law(fuzzyChecks.a, fuzzyChecks.b)}
+                                </span>
+                              </span>
+                              <span className={res.ok ? "text-emerald-300" : "text-rose-300"}>
+                                {res.ok
+                                  ? "Se cumple"
+                                  : `Falla en ${res.worst} (diferencia ${formatDegree(res.gap)})`}
+                              </span>
+                            </div>
+                          ))
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {exprParse.ok && (
+                <div className="bg-slate-900/50 rounded-xl p-4 border border-slate-700 mb-5">
+                  <div className="flex items-center gap-2 mb-2">
+                    {pill("Árbol sintáctico")}
+                  </div>
+                  <ExprTree
+                    node={exprParse.ast}
+                    renderValue={(node) => {
+                      if (intervalAlg) {
+                        const r = evalSetExpr(node, intervalAlg);
+                        return r.ok ? `= ${formatIntervalSet(r.value)}` : null;
+                      }
+                      const r = multiAlgebra
+                        ? evalSetExpr(node, multiAlgebra)
+                        : fuzzyAlg
+                        ? evalSetExpr(node, fuzzyAlg)
+                        : evalSetExpr(node, setAlgebra);
+                      if (!r.ok) return null;
+                      const items = !(r.value instanceof Map)
+                        ? Array.from(r.value)
+                        : fuzzyAlg
+                        ? formatFuzzySet(r.value)
+                        : formatMultiset(r.value);
+                      if (items.length === 0) return "= ∅";
+                      const shown = items.slice(0, 8).join(", ");
+                      return items.length > 8
+                        ? `= {${shown}, …} (${items.length} elementos)`
+                        : `= {${shown}}`;
+                    }}
+                  />
+                </div>
+              )}
+
+              <h3 className="text-lg font-semibold mb-2">Identidades de conjuntos</h3>
+              <div className="flex flex-wrap items-center gap-3 mb-3">
+                <Select
+                  value=""
+                  onChange={(v) => v !== "" && setIdentityText(v)}
+                  options={[
+                    { label: "Biblioteca de leyes…", value: "" },
+                    ...identityLaws.map((law) => ({
+                      label: `${law.name}: ${law.text}`,
+                      value: law.text,
+                    })),
+                  ]}
                 />
               </div>
+              <label className="block mb-3">
+                <span className="text-sm text-slate-300">Identidad</span>
+                <input
+                  value={identityText}
+                  onChange={(e) => setIdentityText(e.target.value)}
+                  spellCheck={false}
+                  className="mt-1 w-full rounded-xl bg-slate-900/50 border border-slate-700 px-3 py-2 font-mono outline-none focus:ring-2 focus:ring-emerald-400"
+                />
+                <span className="text-xs text-slate-400">
+                  Ej. A ∩ (B ∪ C) = (A ∩ B) ∪ (A ∩ C), o A − B = A ∩ B′
+                </span>
+              </label>
+
+              {!identityParse.ok && (
+                <ExprErrorView input={identityText} error={identityParse} />
+              )}
+
+              {identityCheck && (
+                <div className="space-y-3">
+                  {identityCheck.concrete ? (
+                    <IdentityRow
+                      lhs={formatSetExpr(identityCheck.id.lhs)}
+                      rhs={formatSetExpr(identityCheck.id.rhs)}
+                      ok={identityCheck.concrete.ok}
+                      setA={identityCheck.concrete.lhs}
+                      setB={identityCheck.concrete.rhs}
+                    />
+                  ) : (
+                    <p className="text-xs text-slate-400">
+                      No se puede evaluar con los conjuntos actuales: {identityCheck.concreteError}
+                    </p>
+                  )}
+
+                  <div className="rounded-xl border border-slate-700 bg-slate-900/50 p-3 text-sm">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="font-medium">¿Vale para todos los conjuntos?</span>
+                      {identityCheck.rows && (
+                        <span
+                          className={`text-xs px-2 py-1 rounded-full border ${
+                            identityCheck.failing
+                              ? "border-rose-400 text-rose-300"
+                              : "border-emerald-400 text-emerald-300"
+                          }`}
+                        >
+                          {identityCheck.failing ? "No es una ley" : "Es una ley"}
+                        </span>
+                      )}
+                    </div>
+                    {identityCheck.rows ? (
+                      <>
+                        <p className="text-slate-300 text-xs mb-2">
+                          Tabla de pertenencia sobre las {identityCheck.rows.length} regiones
+                          de {identityCheck.id.vars.join(", ") || "U"} (1 = x pertenece).
+                        </p>
+                        <MembershipTableView
+                          vars={identityCheck.id.vars}
+                          rows={identityCheck.rows}
+                          lhsLabel={formatSetExpr(identityCheck.id.lhs)}
+                          rhsLabel={formatSetExpr(identityCheck.id.rhs)}
+                        />
+                        {identityCheck.failing && (
+                          <div className="mt-2 text-xs text-slate-300 space-y-1">
+                            <p>
+                              Contraejemplo: la región{" "}
+                              <span className="font-mono">
+                                {describeRegion(identityCheck.failing.mask, identityCheck.id.vars)}
+                              </span>{" "}
+                              está en el lado {identityCheck.failing.lhs ? "izquierdo" : "derecho"}{" "}
+                              pero no en el {identityCheck.failing.lhs ? "derecho" : "izquierdo"}.
+                            </p>
+                            <p>
+                              Conjuntos concretos:{" "}
+                              <span className="font-mono">
+                                {counterexampleSets(identityCheck.failing.mask, identityCheck.id.vars)}
+                              </span>
+                            </p>
+                            {identityCheck.regionElems.length > 0 && (
+                              <p>
+                                En tus conjuntos caen ahí:{" "}
+                                <span className="font-mono">
+                                  {identityCheck.regionElems.join(", ")}
+                                </span>
+                              </p>
+                            )}
+                          </div>
+                        )}
+                      </>
+                    ) : (
+                      <p className="text-slate-400 text-xs">
+                        Con × o P(·) no se puede decidir por tabla de pertenencia; solo se
+                        comprueba con los conjuntos actuales.
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Contención y particiones: solo con elementos concretos */}
+              {calcMode !== "intervals" && (
+                <>
+                  <hr className="my-5 border-slate-600/60" />
+
+                  <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+                    <h3 className="text-lg font-semibold">Relaciones entre conjuntos</h3>
+                    <label className="flex items-center gap-2 text-xs text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={relWithComplements}
+                        onChange={(e) => setRelWithComplements(e.target.checked)}
+                      />
+                      Incluir complementos
+                    </label>
+                  </div>
+                  <RelationshipTableView rows={setRelations} />
+
+                  <div className="mt-3 grid md:grid-cols-2 gap-3">
+                    <div className="rounded-xl border border-slate-700 bg-slate-900/50 p-3 text-sm space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span>¿{"{"}{usableSets.map((s) => s.name).join(", ")}{"}"} cubre U?</span>
+                        <span
+                          className={`text-xs px-2 py-1 rounded-full border ${
+                            setCover.cover
+                              ? "border-emerald-400 text-emerald-300"
+                              : "border-rose-400 text-rose-300"
+                          }`}
+                        >
+                          {setCover.cover ? "Sí" : "No"}
+                        </span>
+                      </div>
+                      {!setCover.cover && (
+                        <p className="text-xs text-slate-400">
+                          Sin cubrir: {setCover.uncovered.join(", ")}
+                        </p>
+                      )}
+                      <div className="flex items-center justify-between">
+                        <span>¿Es una partición de U?</span>
+                        <span
+                          className={`text-xs px-2 py-1 rounded-full border ${
+                            setCover.partition
+                              ? "border-emerald-400 text-emerald-300"
+                              : "border-rose-400 text-rose-300"
+                          }`}
+                        >
+                          {setCover.partition ? "Sí" : "No"}
+                        </span>
+                      </div>
+                      {setCover.overlaps.map((o) => (
+                        <p key={o.x + o.y} className="text-xs text-slate-400">
+                          {o.x} ∩ {o.y} = {"{"}
+                          {o.common.join(", ")}
+                          {"}"}
+                        </p>
+                      ))}
+                      {setCover.empty.length > 0 && (
+                        <p className="text-xs text-slate-400">
+                          Bloques vacíos: {setCover.empty.join(", ")}
+                        </p>
+                      )}
+                    </div>
+                    <ContainmentSketch forest={containment} overlaps={sketchOverlaps} />
+                  </div>
+                </>
+              )}
             </section>
           </div>
         )}
@@ -1119,7 +2292,7 @@ export default function Page() {
             </h2>
             <p className="text-slate-300 mb-4 text-sm">
               Se evalúa si R es reflexiva,
-              simétrica, antisimétrica y transitiva.
+              simétrica, antisimétrica y transitiva, y se calculan sus cerraduras.
             </p>
 
             <div className="grid md:grid-cols-2 gap-4 mb-4">
@@ -1128,68 +2301,319 @@ export default function Page() {
                 value={UText}
                 setValue={setUText}
                 helper="Ej. 1,2,3,4,5 …"
+                error={setParse.universe.error}
+                diagnostics={universeDiagnostics}
+                onFix={(fix) => applyFix(fix, UText, setUText)}
               />
               <TextArea
                 label="Relación R (pares ordenados)"
                 value={RText}
                 setValue={setRText}
                 helper="Ej. (1,1),(1,2),(2,2)"
+                diagnostics={relationDiagnostics}
+                onFix={(fix) => applyFix(fix, RText, setRText)}
               />
             </div>
 
-            <h3 className="text-lg font-semibold mb-2">Propiedades de R</h3>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+              <h3 className="text-lg font-semibold">Propiedades de R</h3>
+              <label className="flex items-center gap-2 text-xs text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={allWitnesses}
+                  onChange={(e) => {
+                    setAllWitnesses(e.target.checked);
+                    setPickedWitness(null);
+                  }}
+                />
+                Mostrar todos los contraejemplos
+              </label>
+            </div>
             <div className="grid sm:grid-cols-2 gap-3 mb-6 text-sm">
-              <RelationPropertyRow
-                name="Reflexiva"
-                ok={relationProps.reflexive}
-                detail={reflexiveDetail}
-              />
-              <RelationPropertyRow
-                name="Simétrica"
-                ok={relationProps.symmetric}
-                detail={symmetricDetail}
-              />
-              <RelationPropertyRow
-                name="Antisimétrica"
-                ok={relationProps.antisymmetric}
-                detail={antisymmetricDetail}
-              />
-              <RelationPropertyRow
-                name="Transitiva"
-                ok={relationProps.transitive}
-                detail={transitiveDetail}
-              />
+              {propertyRows.map((row) => (
+                <RelationPropertyRow
+                  key={row.key}
+                  name={row.name}
+                  ok={relationProps[row.key]}
+                  detail={row.detail}
+                  unit={violationUnits[row.key]}
+                  violations={violations?.[row.key]}
+                  picked={
+                    pickedViolation && pickedWitness?.property === row.key
+                      ? pickedWitness.label
+                      : null
+                  }
+                  onPick={(v) =>
+                    setPickedWitness(
+                      pickedViolation === v ? null : { property: row.key, label: v.label }
+                    )
+                  }
+                />
+              ))}
             </div>
             <h3 className="text-lg font-semibold mb-2">Clasificación de R</h3>
             <div className="rounded-xl border bg-slate-900/50 p-3 mb-6 text-sm">
-              <div className="flex items-center justify-between mb-1">
-                <span className="font-medium">
-                  ¿Orden parcial o relación de equivalencia?
-                </span>
-                <span
-                  className={
-                    "text-xs px-2 py-1 rounded-full border " +
-                    classificationStyle
-                  }
-                >
-                  {isPartialOrder && isEquivalence
-                    ? "Orden parcial y equivalencia"
-                    : isPartialOrder
-                    ? "Orden parcial"
-                    : isEquivalence
-                    ? "Equivalencia"
-                    : "Ninguna"}
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+                <span className="font-medium">¿Qué clase de relación es?</span>
+                <span className="flex flex-wrap gap-1">
+                  {relationClassIds.length === 0 && (
+                    <span
+                      className={"text-xs px-2 py-1 rounded-full border " + classificationStyle}
+                    >
+                      Ninguna
+                    </span>
+                  )}
+                  {relationClasses
+                    .filter((c) => relationClassIds.includes(c.id))
+                    .map((c) => (
+                      <span
+                        key={c.id}
+                        className={"text-xs px-2 py-1 rounded-full border " + classificationStyle}
+                      >
+                        {c.name}
+                      </span>
+                    ))}
                 </span>
               </div>
               <p className="text-slate-300 text-xs">{classificationLabel}</p>
-              <ul className="mt-2 text-xs text-slate-400 list-disc list-inside">
-                <li>Orden parcial: reflexiva, transitiva y antisimétrica.</li>
-                <li>Equivalencia: reflexiva, transitiva y simétrica.</li>
+              <ul className="mt-2 text-xs text-slate-400 space-y-0.5">
+                {relationClasses.map((c) => (
+                  <li key={c.id}>
+                    <span
+                      className={
+                        relationClassIds.includes(c.id) ? "text-emerald-300" : "text-slate-500"
+                      }
+                    >
+                      {relationClassIds.includes(c.id) ? "✓" : "✗"}
+                    </span>{" "}
+                    {c.name}: {c.rule}.
+                  </li>
+                ))}
               </ul>
+              <div className="mt-3 flex justify-center">
+                <RelationClassDiagram classes={relationClassIds} />
+              </div>
+            </div>
+
+            <h3 className="text-lg font-semibold mb-2">Reparar R</h3>
+            <div className="rounded-xl border bg-slate-900/50 p-3 mb-6 text-sm">
+              <div className="flex flex-wrap items-center gap-3 mb-2 text-xs text-slate-400">
+                <span>Convertir R en:</span>
+                <Segmented
+                  value={repairKind}
+                  onChange={setRepairKind}
+                  options={(Object.keys(repairNames) as RepairKind[]).map((k) => ({
+                    label: repairNames[k],
+                    value: k,
+                  }))}
+                />
+              </div>
+              {relationRepair.added.length === 0 && relationRepair.removed.length === 0 ? (
+                <p className="text-emerald-300 text-xs">
+                  R ya es {repairNames[repairKind].toLowerCase()}; no hace falta cambiar nada.
+                </p>
+              ) : (
+                <>
+                  <p className="text-slate-300 text-xs">
+                    Cambio sugerido:{" "}
+                    <span className="text-emerald-300">+{relationRepair.added.length}</span> /{" "}
+                    <span className="text-rose-300">−{relationRepair.removed.length}</span> pares.
+                    {repairKind === "partialOrder"
+                      ? " Se quita el mínimo de pares que rompe los ciclos (antisimetría) y luego" +
+                        " se agrega lo que falta por reflexividad y transitividad; el total de" +
+                        " cambios no siempre es el menor posible."
+                      : " Es la menor relación de ese tipo que contiene a R: solo se agregan pares."}
+                  </p>
+                  {relationRepair.added.length > 0 && (
+                    <p className="mt-1 text-xs text-emerald-300 break-words">
+                      Agregar: {repairCells(relationRepair.added)}
+                    </p>
+                  )}
+                  {relationRepair.removed.length > 0 && (
+                    <p className="mt-1 text-xs text-rose-300 break-words">
+                      Quitar: {repairCells(relationRepair.removed)}
+                    </p>
+                  )}
+                  {!relationRepair.exact && (
+                    <p className="mt-1 text-xs text-amber-300">
+                      Hay ciclos muy grandes: los pares a quitar se eligieron con una heurística
+                      y pueden no ser el mínimo.
+                    </p>
+                  )}
+                  <MatrixTable
+                    labels={UArr}
+                    data={relationRepair.matrix}
+                    title="R reparada (verde: se agrega · rojo tachado: se quita)"
+                    diff={relationRepair}
+                  />
+                  <button
+                    onClick={() => setRText(pairsFromMatrix(relationRepair.matrix, relationPairs))}
+                    className="mt-3 px-3 py-2 rounded-lg bg-emerald-500 text-slate-900 text-sm font-medium hover:bg-emerald-400 transition border border-emerald-300"
+                  >
+                    Aplicar reparación
+                  </button>
+                </>
+              )}
+            </div>
+
+            {equivClasses && (
+              <>
+                <h3 className="text-lg font-semibold mb-2">Clases de equivalencia</h3>
+                <div className="rounded-xl border bg-slate-900/50 p-3 mb-6 text-sm space-y-3">
+                  <div className="flex flex-wrap gap-2 text-xs font-mono">
+                    {UArr.map((x) => (
+                      <span
+                        key={x}
+                        className="px-2 py-1 rounded-md bg-slate-900/60 border border-slate-700"
+                      >
+                        [{x}] ={" "}
+                        {formatSetLiteral(equivClasses.find((c) => c.includes(x)) ?? [])}
+                      </span>
+                    ))}
+                  </div>
+                  <p className="text-slate-300">
+                    <span className="font-mono">U/R = {formatQuotient(equivClasses)}</span>{" "}
+                    <span className="text-xs text-slate-400">
+                      ({equivClasses.length} clase(s))
+                    </span>
+                  </p>
+                  <PartitionView blocks={equivClasses} />
+                </div>
+              </>
+            )}
+
+            <h3 className="text-lg font-semibold mb-2">De una partición a su relación</h3>
+            <div className="grid md:grid-cols-[1fr_auto] gap-3 items-start mb-6">
+              <TextArea
+                label="Partición de U (un bloque por llave)"
+                value={partitionText}
+                setValue={setPartitionText}
+                helper="Ej. {1,2}{3}{4,5,6}: bloques no vacíos, sin elementos en común y que cubren U"
+                error={partitionParse.ok ? null : partitionParse}
+              />
+              <button
+                disabled={!partitionParse.ok}
+                onClick={() =>
+                  partitionParse.ok &&
+                  setRText(
+                    relationFromPartition(partitionParse.blocks)
+                      .map(([a, b]) => `(${a},${b})`)
+                      .join(",")
+                  )
+                }
+                className="md:mt-6 px-3 py-2 rounded-lg bg-emerald-500 text-slate-900 text-sm font-medium hover:bg-emerald-400 transition border border-emerald-300 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Generar R desde la partición
+              </button>
             </div>
 
+            <h3 className="text-lg font-semibold mb-2">Generar R con una regla</h3>
+            <div className="rounded-xl border bg-slate-900/50 p-3 mb-6 text-sm space-y-3">
+              <div className="flex flex-wrap gap-2">
+                {relationTemplates.map((t) => (
+                  <button
+                    key={t.rule}
+                    onClick={() => setRuleText(t.rule)}
+                    className={
+                      "px-3 py-1 rounded-full text-xs border transition " +
+                      (ruleText === t.rule
+                        ? "bg-emerald-400 text-slate-900 border-emerald-300"
+                        : "bg-slate-800 text-slate-200 border-slate-600 hover:border-emerald-300")
+                    }
+                  >
+                    {t.name}
+                  </button>
+                ))}
+              </div>
+              <label className="block">
+                <span className="text-sm text-slate-300">Regla P(a, b)</span>
+                <input
+                  value={ruleText}
+                  onChange={(e) => setRuleText(e.target.value)}
+                  spellCheck={false}
+                  className="mt-1 w-full rounded-xl bg-slate-900/50 border border-slate-700 px-3 py-2 font-mono outline-none focus:ring-2 focus:ring-emerald-400"
+                />
+                <span className="text-xs text-slate-400">
+                  R = {"{"}(a, b) ∈ U × U | P(a, b){"}"}. Operadores: + − * / mod, = ≠ &lt; ≤ &gt;
+                  ≥, y / o / no, ∈ A, es primo/par/impar. Funciones: abs, gcd, lcm, min, max,
+                  mod(a, n), len, common (letras en común), first, last.
+                </span>
+              </label>
+              {!ruleResult.ok ? (
+                <ExprErrorView input={ruleText} error={ruleResult} />
+              ) : (
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-xs text-slate-300 font-mono break-all">
+                    {ruleResult.pairs.length} {ruleResult.pairs.length === 1 ? "par" : "pares"}
+                    {ruleResult.pairs.length > 0 &&
+                      `: ${formatPairs(ruleResult.pairs.slice(0, 12))}${
+                        ruleResult.pairs.length > 12 ? ", …" : ""
+                      }`}
+                  </span>
+                  <button
+                    onClick={() => setRText(formatPairs(ruleResult.pairs))}
+                    className="px-3 py-2 rounded-lg bg-emerald-500 text-slate-900 text-sm font-medium hover:bg-emerald-400 transition border border-emerald-300"
+                  >
+                    Escribir en R
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <h3 className="text-lg font-semibold mb-2">Digrafo de R</h3>
+            <div className="flex flex-wrap items-center gap-3 mb-2 text-xs text-slate-400">
+              <Segmented
+                value={digraphLayout}
+                onChange={setDigraphLayout}
+                options={[
+                  { label: "Circular", value: "circle" },
+                  { label: "Por fuerzas", value: "force" },
+                ]}
+              />
+              <span>Resaltar testigo:</span>
+              <Select
+                value={witnessOf}
+                onChange={(v) => {
+                  setWitnessOf(v);
+                  setPickedWitness(null);
+                }}
+                options={[
+                  { label: "Ninguno", value: "none" },
+                  ...propertyRows
+                    .filter((row) => !relationProps[row.key])
+                    .map((row) => ({ label: row.name, value: row.key })),
+                ]}
+              />
+            </div>
+            <div className="rounded-xl border border-slate-700 bg-slate-900/40 p-2 flex justify-center">
+              <RelationDigraph
+                nodes={UArr}
+                pairs={relationPairs}
+                layout={digraphLayout}
+                witness={shownWitness}
+                hovered={digraphNode}
+                onHover={setDigraphNode}
+              />
+            </div>
+            <p className="text-xs text-slate-400 mt-2 mb-6">
+              Pasa el cursor sobre un nodo: en verde los pares que salen de él, en azul los que
+              llegan, y su fila y columna se marcan en la matriz. El testigo va en rojo; los pares
+              que faltan en R se dibujan punteados.
+            </p>
+
             <h3 className="text-lg font-semibold mb-2">Matriz de relación R (U × U)</h3>
-            <MatrixTable labels={UArr} data={relationMatrix} />
+            <p className="text-xs text-slate-400">
+              Haz clic en una celda (o muévete con las flechas y pulsa Espacio) para agregar o
+              quitar el par; la lista de R se reescribe en orden.
+            </p>
+            <MatrixTable
+              labels={UArr}
+              data={relationMatrix}
+              highlight={witnessCells.present}
+              missing={witnessCells.missing}
+              pivot={digraphPivot >= 0 ? digraphPivot : undefined}
+              onChange={(M) => setRText(pairsFromMatrix(M, relationPairs))}
+            />
 
             <h3 className="text-lg font-semibold mb-2">Lista de pares en R</h3>
             <div className="flex flex-wrap gap-2 text-xs">
@@ -1205,6 +2629,478 @@ export default function Page() {
                 </span>
               ))}
             </div>
+
+            <h3 className="text-lg font-semibold mt-6 mb-2">Cerraduras de R</h3>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {(Object.keys(closureNames) as ClosureKind[]).map((k) => (
+                <button
+                  key={k}
+                  onClick={() => setClosureKind(closureKind === k ? null : k)}
+                  className={
+                    "px-3 py-2 rounded-lg text-sm font-medium transition border " +
+                    (closureKind === k
+                      ? "bg-emerald-500 text-slate-900 border-emerald-300 hover:bg-emerald-400"
+                      : "bg-slate-900 text-slate-100 border-slate-600 hover:bg-slate-700")
+                  }
+                >
+                  {closureNames[k]}
+                  {k === "transitive" && " (Warshall)"}
+                </button>
+              ))}
+            </div>
+            {relationClosure && (
+              <div className="rounded-xl border bg-slate-900/50 p-3 text-sm space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  {pill(`Cerradura ${closureNames[relationClosure.kind].toLowerCase()}`)}
+                  {chip(
+                    relationClosure.added.length === 0
+                      ? "R ya la cumple: no se agrega nada"
+                      : `${relationClosure.added.length} par(es) agregado(s)`
+                  )}
+                  {relationClosure.added.length > 0 && (
+                    <button
+                      onClick={() =>
+                        setRText(
+                          matrixToPairs(UArr, relationClosure.matrix)
+                            .map(([a, b]) => `(${a},${b})`)
+                            .join(",")
+                        )
+                      }
+                      className="ml-auto text-xs px-2 py-1 rounded-full border border-emerald-400 text-emerald-300 hover:bg-emerald-400/10 transition"
+                    >
+                      Reemplazar R por la cerradura
+                    </button>
+                  )}
+                </div>
+                <MatrixTable
+                  labels={UArr}
+                  data={relationClosure.matrix}
+                  highlight={relationClosure.added}
+                />
+                {relationClosure.added.length > 0 && (
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    {relationClosure.added.map(([i, j]) => (
+                      <span
+                        key={`${i}-${j}`}
+                        className="px-2 py-1 rounded-md bg-amber-400/15 border border-amber-400/50 text-amber-200"
+                      >
+                        + ({UArr[i]}, {UArr[j]})
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {relationClosure.steps &&
+                  (UArr.length <= MAX_WARSHALL_VIEW ? (
+                    <>
+                      <p className="text-xs text-slate-400">
+                        Algoritmo de Warshall: en W_k, la celda (i,j) vale 1 si ya valía 1 en
+                        W_(k−1) o si (i,k) y (k,j) valen 1 en W_(k−1), con k el pivote.
+                      </p>
+                      <WarshallStepsView labels={UArr} steps={relationClosure.steps} />
+                    </>
+                  ) : (
+                    <p className="text-xs text-slate-400">
+                      Con |U| = {UArr.length} se omiten las matrices intermedias (se muestran
+                      hasta |U| = {MAX_WARSHALL_VIEW}).
+                    </p>
+                  ))}
+              </div>
+            )}
+
+            <h3 className="text-lg font-semibold mt-6 mb-2">Operaciones con relaciones</h3>
+            <div className="grid md:grid-cols-2 gap-4 mb-3">
+              <TextArea
+                label="Relación S (pares ordenados)"
+                value={SText}
+                setValue={setSText}
+                helper="Ej. (1,2),(2,3)"
+                diagnostics={sDiagnostics}
+                onFix={(fix) => applyFix(fix, SText, setSText)}
+              />
+              <div className="flex flex-wrap items-start gap-3 md:mt-6">
+                <Select
+                  value={relOpKind}
+                  onChange={setRelOpKind}
+                  options={(Object.keys(relationOpNames) as RelationOp[]).map((k) => ({
+                    label: relationOpNames[k],
+                    value: k,
+                  }))}
+                />
+                <Select
+                  value={relFirst}
+                  onChange={setRelFirst}
+                  options={[
+                    { label: relationOpLabel(relOpKind, "R", "S", relPower ?? 0), value: "R" },
+                    { label: relationOpLabel(relOpKind, "S", "R", relPower ?? 0), value: "S" },
+                  ]}
+                />
+                {relOpKind === "power" && (
+                  <label className="flex items-center gap-2 text-sm text-slate-300">
+                    n =
+                    <input
+                      value={relPowerText}
+                      onChange={(e) => setRelPowerText(e.target.value)}
+                      className={
+                        "w-16 rounded-lg bg-slate-900/50 border px-2 py-1 font-mono outline-none focus:ring-2 focus:ring-emerald-400 " +
+                        (relPower === null ? "border-rose-400" : "border-slate-700")
+                      }
+                    />
+                  </label>
+                )}
+              </div>
+            </div>
+            {relPower === null && relOpKind === "power" && (
+              <p className="text-xs text-rose-300 mb-3">
+                {relPowerValue === null
+                  ? "El exponente debe ser un entero mayor o igual que 0."
+                  : `El exponente puede ser a lo sumo ${MAX_RELATION_POWER}.`}
+              </p>
+            )}
+            {relOpResult && (
+              <div className="rounded-xl border bg-slate-900/50 p-3 text-sm space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  {pill(relOpResult.label)}
+                  {chip(`${matrixToPairs(UArr, relOpResult.matrix).length} par(es)`)}
+                  <span className="text-xs text-slate-400 font-mono">{relOpResult.formula}</span>
+                  <button
+                    onClick={() =>
+                      setRText(
+                        matrixToPairs(UArr, relOpResult.matrix)
+                          .map(([a, b]) => `(${a},${b})`)
+                          .join(",")
+                      )
+                    }
+                    className="ml-auto text-xs px-2 py-1 rounded-full border border-emerald-400 text-emerald-300 hover:bg-emerald-400/10 transition"
+                  >
+                    Copiar en R
+                  </button>
+                </div>
+                <div className="grid lg:grid-cols-3 gap-3">
+                  <MatrixTable labels={UArr} data={relationMatrix} title="M(R)" />
+                  <MatrixTable labels={UArr} data={sMatrix} title="M(S)" />
+                  <MatrixTable
+                    labels={UArr}
+                    data={relOpResult.matrix}
+                    title={`M(${relOpResult.label})`}
+                  />
+                </div>
+              </div>
+            )}
+
+            <h3 className="text-lg font-semibold mt-6 mb-2">Contar y explorar relaciones sobre U</h3>
+            <div className="rounded-xl border bg-slate-900/50 p-3 text-sm space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-slate-400">Recorrer:</span>
+                <Select
+                  value={enumFamily}
+                  onChange={(v: RelationFamily) => {
+                    setEnumFamily(v);
+                    setEnumPage(0);
+                  }}
+                  options={(Object.keys(relationFamilies) as RelationFamily[]).map((f) => ({
+                    label: `${relationFamilies[f].name} (|U| ≤ ${relationFamilies[f].maxSize})`,
+                    value: f,
+                  }))}
+                />
+              </div>
+              <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                {propertyRows.map((row) => (
+                  <div key={row.key} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="text-slate-300">{row.name}</span>
+                    <Segmented
+                      value={
+                        enumFilter[row.key] === undefined
+                          ? "any"
+                          : enumFilter[row.key]
+                          ? "yes"
+                          : "no"
+                      }
+                      onChange={(v) => {
+                        const next = { ...enumFilter };
+                        if (v === "any") delete next[row.key];
+                        else next[row.key] = v === "yes";
+                        setEnumFilter(next);
+                        setEnumPage(0);
+                      }}
+                      options={[
+                        { label: "—", value: "any" },
+                        { label: "Sí", value: "yes" },
+                        { label: "No", value: "no" },
+                      ]}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {!enumeration ? (
+                <div className="flex flex-wrap items-center gap-2 text-xs text-amber-300">
+                  U tiene {UArr.length} elementos; para «{relationFamilies[enumFamily].name}» el
+                  máximo es {relationFamilies[enumFamily].maxSize}.
+                  <button
+                    onClick={() => setUText("1,2,3")}
+                    className="px-2 py-1 rounded-md border border-slate-600 text-slate-200 hover:border-emerald-300"
+                  >
+                    Usar U = {"{"}1,2,3{"}"}
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">
+                      {enumeration.total}{" "}
+                      {enumeration.total === 1 ? "relación cumple" : "relaciones cumplen"} el
+                      filtro (n = {UArr.length})
+                    </span>
+                    {enumKnown &&
+                      pill(
+                        `${enumKnown.formula} = ${enumKnown.value} ${
+                          enumKnown.value === enumeration.total ? "✓" : "✗"
+                        }`
+                      )}
+                  </div>
+                  <div className="grid sm:grid-cols-2 gap-2">
+                    {enumeration.page.map((M, k) => {
+                      const pairs = matrixToPairs(UArr, M);
+                      return (
+                        <div
+                          key={enumPage * ENUM_PAGE_SIZE + k}
+                          className="flex items-center justify-between gap-2 rounded-lg border border-slate-700 bg-slate-900/60 px-2 py-1"
+                        >
+                          <span className="font-mono text-xs break-all">
+                            {pairs.length ? `{${formatPairs(pairs)}}` : "∅"}
+                          </span>
+                          <button
+                            onClick={() => setRText(formatPairs(pairs))}
+                            className="shrink-0 px-2 py-1 rounded-md border border-slate-600 text-xs text-slate-200 hover:border-emerald-300"
+                          >
+                            Cargar en R
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {enumPages > 1 && (
+                    <div className="flex items-center gap-2 text-xs text-slate-300">
+                      <button
+                        onClick={() => setEnumPage(Math.max(0, enumPage - 1))}
+                        disabled={enumPage === 0}
+                        className="px-2 py-1 rounded-md border border-slate-600 disabled:opacity-40"
+                      >
+                        ← Anterior
+                      </button>
+                      <span>
+                        Página {enumPage + 1} de {enumPages}
+                      </span>
+                      <button
+                        onClick={() => setEnumPage(Math.min(enumPages - 1, enumPage + 1))}
+                        disabled={enumPage >= enumPages - 1}
+                        className="px-2 py-1 rounded-md border border-slate-600 disabled:opacity-40"
+                      >
+                        Siguiente →
+                      </button>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </section>
+        )}
+
+        {/* Pestaña Funciones */}
+        {tab === "functions" && (
+          <section className="bg-slate-800/60 rounded-2xl p-5 shadow-xl">
+            <h2 className="text-2xl font-semibold mb-2">Funciones entre dos conjuntos</h2>
+            <p className="text-slate-300 mb-4 text-sm">
+              R ⊆ X × Y es función si cada x ∈ X tiene exactamente una imagen. Se revisa si es
+              inyectiva, sobreyectiva o biyectiva, y se calculan imágenes, preimágenes, la inversa y
+              la composición con g : Y → Z.
+            </p>
+
+            <div className="grid md:grid-cols-3 gap-4 mb-4">
+              <TextArea
+                label="Dominio X"
+                value={XText}
+                setValue={setXText}
+                helper="Ej. 1,2,3,4"
+                error={funcX.error}
+              />
+              <TextArea
+                label="Codominio Y"
+                value={YText}
+                setValue={setYText}
+                helper="Ej. a,b,c"
+                error={funcY.error}
+              />
+              <TextArea
+                label="f ⊆ X × Y (pares ordenados)"
+                value={FText}
+                setValue={setFText}
+                helper="Ej. (1,a),(2,b),(3,c)"
+                diagnostics={fDiagnostics}
+                onFix={(fix) => applyFix(fix, FText, setFText)}
+              />
+            </div>
+
+            <h3 className="text-lg font-semibold mb-2">Propiedades de f</h3>
+            <div className="grid sm:grid-cols-2 gap-3 mb-6 text-sm">
+              <RelationPropertyRow
+                name="Es función"
+                ok={fReport.isFunction}
+                detail={functionDetail}
+              />
+              <RelationPropertyRow
+                name="Inyectiva"
+                ok={fReport.injective}
+                detail={injectiveDetail}
+              />
+              <RelationPropertyRow
+                name="Sobreyectiva"
+                ok={fReport.surjective}
+                detail={surjectiveDetail}
+              />
+              <RelationPropertyRow
+                name="Biyectiva"
+                ok={fReport.bijective}
+                detail={bijectiveDetail}
+              />
+            </div>
+
+            <div className="grid md:grid-cols-3 gap-3 mb-6 text-sm">
+              <div className="rounded-xl border border-slate-700 bg-slate-900/50 p-3">
+                <div className="text-xs text-slate-400 mb-1">Dominio de definición</div>
+                <div className="font-mono">{formatSetLiteral(fReport.domain)}</div>
+              </div>
+              <div className="rounded-xl border border-slate-700 bg-slate-900/50 p-3">
+                <div className="text-xs text-slate-400 mb-1">Rango (imagen de X)</div>
+                <div className="font-mono">{formatSetLiteral(fReport.range)}</div>
+              </div>
+              <div className="rounded-xl border border-slate-700 bg-slate-900/50 p-3">
+                <div className="text-xs text-slate-400 mb-1">Codominio</div>
+                <div className="font-mono">{formatSetLiteral(funcY.elems)}</div>
+              </div>
+            </div>
+
+            <h3 className="text-lg font-semibold mb-2">Imagen y preimagen</h3>
+            <div className="grid md:grid-cols-2 gap-4 mb-2">
+              <div>
+                <TextArea
+                  label="A ⊆ X"
+                  value={imageText}
+                  setValue={setImageText}
+                  helper="Ej. 1,4 o {x ∈ X | x > 2}"
+                  error={imageSet.error}
+                />
+                <div className="mt-1 text-sm font-mono">
+                  f(A) = {formatSetLiteral(imageOf(fPairs, imageSet.elems))}
+                </div>
+              </div>
+              <div>
+                <TextArea
+                  label="B ⊆ Y"
+                  value={preimageText}
+                  setValue={setPreimageText}
+                  helper="Ej. a o a,c"
+                  error={preimageSet.error}
+                />
+                <div className="mt-1 text-sm font-mono">
+                  f⁻¹(B) = {formatSetLiteral(preimageOf(fPairs, preimageSet.elems))}
+                </div>
+              </div>
+            </div>
+
+            <h3 className="text-lg font-semibold mt-6 mb-2">Diagrama de flechas</h3>
+            <div className="rounded-xl border border-slate-700 bg-slate-900/40 p-2 flex justify-center">
+              <ArrowDiagram
+                columns={[
+                  { name: "X", elems: funcX.elems },
+                  { name: "Y", elems: funcY.elems },
+                ]}
+                maps={[fPairs]}
+                marked={[imageSet.elems, imageOf(fPairs, imageSet.elems)]}
+                warn={[
+                  ...fReport.multiValued.flatMap(({ x, ys }) => ys.map((y): Pair => [x, y])),
+                  ...fReport.collisions.flatMap(({ y, xs }) => xs.map((x): Pair => [x, y])),
+                ]}
+                warnElems={[fReport.undefinedAt, fReport.unreached]}
+              />
+            </div>
+            <p className="text-xs text-slate-400 mt-2 mb-6">
+              En ámbar, A y f(A). En rojo, los testigos: flechas de un x con varias imágenes o de
+              varios x a la misma imagen, y elementos sin imagen o que no son imagen de nadie.
+            </p>
+
+            <h3 className="text-lg font-semibold mb-2">Inversa f⁻¹ ⊆ Y × X</h3>
+            <div className="rounded-xl border bg-slate-900/50 p-3 mb-6 text-sm space-y-2">
+              <div className="font-mono break-all">
+                f⁻¹ = {"{"}
+                {formatPairs(fInverse)}
+                {"}"}
+              </div>
+              <p className="text-xs text-slate-300">
+                {inverseReport.isFunction
+                  ? "f⁻¹ es una función de Y en X."
+                  : "f⁻¹ es solo una relación de Y en X, no una función."}{" "}
+                Una función f : X → Y tiene inversa f⁻¹ : Y → X si y solo si es biyectiva.
+              </p>
+              <ArrowDiagram
+                columns={[
+                  { name: "Y", elems: funcY.elems },
+                  { name: "X", elems: funcX.elems },
+                ]}
+                maps={[fInverse]}
+              />
+              <button
+                onClick={() => {
+                  setXText(YText);
+                  setYText(XText);
+                  setFText(formatPairs(fInverse));
+                }}
+                className="px-3 py-2 rounded-lg bg-emerald-500 text-slate-900 text-sm font-medium hover:bg-emerald-400 transition border border-emerald-300"
+              >
+                Usar f⁻¹ como f
+              </button>
+            </div>
+
+            <h3 className="text-lg font-semibold mb-2">Composición g ∘ f : X → Z</h3>
+            <div className="grid md:grid-cols-2 gap-4 mb-4">
+              <TextArea
+                label="Conjunto Z"
+                value={ZText}
+                setValue={setZText}
+                helper="Ej. x,y"
+                error={funcZ.error}
+              />
+              <TextArea
+                label="g ⊆ Y × Z (pares ordenados)"
+                value={GText}
+                setValue={setGText}
+                helper="Ej. (a,x),(b,y)"
+                diagnostics={gDiagnostics}
+                onFix={(fix) => applyFix(fix, GText, setGText)}
+              />
+            </div>
+            <div className="rounded-xl border bg-slate-900/50 p-3 text-sm space-y-2">
+              <div className="font-mono break-all">
+                g ∘ f = {"{"}
+                {formatPairs(gfPairs)}
+                {"}"}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {pill(gReport.isFunction ? "g es función" : "g no es función")}
+                {pill(gfReport.isFunction ? "g ∘ f es función" : "g ∘ f no es función")}
+                {gfReport.isFunction && pill(gfReport.injective ? "inyectiva" : "no inyectiva")}
+                {gfReport.isFunction &&
+                  pill(gfReport.surjective ? "sobreyectiva" : "no sobreyectiva")}
+              </div>
+              <ArrowDiagram
+                columns={[
+                  { name: "X", elems: funcX.elems },
+                  { name: "Y", elems: funcY.elems },
+                  { name: "Z", elems: funcZ.elems },
+                ]}
+                maps={[fPairs, gPairs]}
+              />
+            </div>
           </section>
         )}
 
@@ -1224,12 +3120,17 @@ export default function Page() {
                 value={UText}
                 setValue={setUText}
                 helper="Ej. 1,2,3"
+                error={setParse.universe.error}
+                diagnostics={universeDiagnostics}
+                onFix={(fix) => applyFix(fix, UText, setUText)}
               />
               <TextArea
                 label="Relación R (pares ordenados)"
                 value={RText}
                 setValue={setRText}
                 helper="Ej. (1,1),(1,2),(2,2),(1,3),(2,3),(3,3)"
+                diagnostics={relationDiagnostics}
+                onFix={(fix) => applyFix(fix, RText, setRText)}
               />
             </div>
 
@@ -1239,6 +3140,8 @@ export default function Page() {
                 value={HText}
                 setValue={setHText}
                 helper="Ej. (1,2),(2,3)"
+                diagnostics={hasseDiagnostics}
+                onFix={(fix) => applyFix(fix, HText, setHText)}
               />
               <div className="flex flex-col gap-2 text-sm">
                 <button
@@ -1304,7 +3207,12 @@ export default function Page() {
             </h3>
             <HasseDiagram universe={hasseUniverse} covers={hasseCovers} />
             <h3 className="text-lg font-semibold mb-2">Matriz de adyacencia (Hasse)</h3>
-            <MatrixTable labels={UArr} data={hasseAdjacency} />
+            <MatrixTable
+              labels={UArr}
+              data={hasseAdjacency}
+              irreflexive
+              onChange={(M) => setHText(pairsFromMatrix(M, hasseCovers))}
+            />
           </section>
         )}
 
@@ -1420,29 +3328,122 @@ function TextArea({
   value,
   setValue,
   helper,
+  error,
+  diagnostics,
+  onFix,
 }: {
   label: string;
   value: string;
   setValue: (v: string) => void;
   helper?: string;
+  error?: ExprError | null;
+  diagnostics?: Diagnostic[];
+  onFix?: (fix: DiagnosticFix) => void;
 }) {
   return (
-    <label className="block">
-      <span className="text-sm text-slate-300">{label}</span>
+    <div>
+      <label className="block">
+        <span className="text-sm text-slate-300">{label}</span>
+        <textarea
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          rows={label.includes("Universo") ? 3 : 2}
+          className={
+            "mt-1 w-full rounded-xl bg-slate-900/50 border px-3 py-2 outline-none focus:ring-2 focus:ring-emerald-400 " +
+            (error ? "border-rose-400" : "border-slate-700")
+          }
+        />
+        {helper && <span className="text-xs text-slate-400">{helper}</span>}
+      </label>
+      {error && (
+        <div className="mt-1">
+          <ExprErrorView input={value} error={error} />
+        </div>
+      )}
+      {diagnostics && onFix && (
+        <DiagnosticsList input={value} diagnostics={diagnostics} onFix={onFix} />
+      )}
+    </div>
+  );
+}
+
+function SetEditor({
+  input,
+  nameError,
+  inputError,
+  diagnostics,
+  onFix,
+  canRemove,
+  onChange,
+  onRemove,
+}: {
+  input: NamedSetInput;
+  nameError: string | null;
+  inputError: ExprError | null;
+  diagnostics: Diagnostic[];
+  onFix: (fix: DiagnosticFix) => void;
+  canRemove: boolean;
+  onChange: (patch: Partial<NamedSetInput>) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="block">
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-slate-300">Conjunto</span>
+        <input
+          value={input.name}
+          onChange={(e) => onChange({ name: e.target.value })}
+          aria-label="Nombre del conjunto"
+          className={
+            "w-28 rounded-lg bg-slate-900/50 border px-2 py-0.5 text-sm outline-none focus:ring-2 focus:ring-emerald-400 " +
+            (nameError ? "border-rose-400" : "border-slate-700")
+          }
+        />
+        {canRemove && (
+          <button
+            onClick={onRemove}
+            className="ml-auto text-xs px-2 py-0.5 rounded-full border border-slate-600 text-slate-300 hover:border-rose-400 hover:text-rose-300 transition"
+          >
+            Quitar
+          </button>
+        )}
+      </div>
       <textarea
-        value={value}
-        onChange={(e) => setValue(e.target.value)}
-        rows={label.includes("Universo") ? 3 : 2}
-        className="mt-1 w-full rounded-xl bg-slate-900/50 border border-slate-700 px-3 py-2 outline-none focus:ring-2 focus:ring-emerald-400"
+        value={input.text}
+        onChange={(e) => onChange({ text: e.target.value })}
+        rows={2}
+        className={
+          "mt-1 w-full rounded-xl bg-slate-900/50 border px-3 py-2 outline-none focus:ring-2 focus:ring-emerald-400 " +
+          (inputError ? "border-rose-400" : "border-slate-700")
+        }
       />
-      {helper && <span className="text-xs text-slate-400">{helper}</span>}
-    </label>
+      {nameError && <span className="text-xs text-rose-300">{nameError}</span>}
+      {inputError && (
+        <div className="mt-1">
+          <ExprErrorView input={input.text} error={inputError} />
+        </div>
+      )}
+      <DiagnosticsList input={input.text} diagnostics={diagnostics} onFix={onFix} />
+    </div>
   );
 }
 
-function Segment({ title, items }: { title: string; items: Elem[] }) {
+function Segment({
+  title,
+  items,
+  highlighted,
+}: {
+  title: string;
+  items: Elem[];
+  highlighted?: boolean;
+}) {
   return (
-    <div className="rounded-xl border border-slate-700 bg-slate-900/40 p-3">
+    <div
+      className={
+        "rounded-xl border bg-slate-900/40 p-3 " +
+        (highlighted ? "border-emerald-400/70 ring-1 ring-emerald-400/40" : "border-slate-700")
+      }
+    >
       <div className="flex items-center justify-between mb-1">
         <h4 className="font-medium text-slate-200 text-sm">{title}</h4>
         <span className="text-xs text-slate-400">{items.length}</span>
@@ -1464,6 +3465,81 @@ function Segment({ title, items }: { title: string; items: Elem[] }) {
   );
 }
 
+// Listado con páginas para resultados grandes (p. ej. P(U) con 512 subconjuntos)
+function PagedChips({
+  items,
+  renderItem,
+  pageSize = 60,
+}: {
+  items: Elem[];
+  renderItem: (x: Elem) => React.ReactNode;
+  pageSize?: number;
+}) {
+  const [page, setPage] = useState(0);
+  const pages = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(page, pages - 1);
+  const shown = items.slice(current * pageSize, (current + 1) * pageSize);
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        {shown.map(renderItem)}
+        {items.length === 0 && <span className="text-slate-400">∅ (vacío)</span>}
+      </div>
+      {pages > 1 && (
+        <div className="flex items-center gap-2 mt-3 text-xs text-slate-300">
+          <button
+            onClick={() => setPage(Math.max(0, current - 1))}
+            disabled={current === 0}
+            className="px-2 py-1 rounded-md border border-slate-600 disabled:opacity-40"
+          >
+            ← Anterior
+          </button>
+          <span>
+            Página {current + 1} de {pages} ({items.length} elementos)
+          </span>
+          <button
+            onClick={() => setPage(Math.min(pages - 1, current + 1))}
+            disabled={current === pages - 1}
+            className="px-2 py-1 rounded-md border border-slate-600 disabled:opacity-40"
+          >
+            Siguiente →
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Selector de modo con botones tipo píldora
+function Segmented<T extends string>({
+  value,
+  onChange,
+  options,
+}: {
+  value: T;
+  onChange: (v: T) => void;
+  options: { label: string; value: T }[];
+}) {
+  return (
+    <div className="inline-flex rounded-full border border-slate-600 p-0.5 text-xs">
+      {options.map((o) => (
+        <button
+          key={o.value}
+          onClick={() => onChange(o.value)}
+          className={
+            "px-3 py-1 rounded-full transition " +
+            (value === o.value
+              ? "bg-emerald-400 text-slate-900"
+              : "text-slate-300 hover:text-emerald-300")
+          }
+        >
+          {o.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
 function Select<T extends string>({
   value,
   onChange,
@@ -1488,7 +3564,7 @@ function Select<T extends string>({
   );
 }
 
-function DeMorganRow({
+function IdentityRow({
   lhs,
   rhs,
   ok,
@@ -1547,15 +3623,27 @@ function DeMorganRow({
   );
 }
 
+// Con violations (modo exhaustivo) se listan todos los contraejemplos; cada uno se puede elegir
+const MAX_VIOLATIONS_VIEW = 60;
+
 function RelationPropertyRow({
   name,
   ok,
   detail,
+  unit,
+  violations,
+  picked,
+  onPick,
 }: {
   name: string;
   ok: boolean;
   detail: string;
+  unit?: [string, string];
+  violations?: Violation[];
+  picked?: string | null; // etiqueta del contraejemplo elegido
+  onPick?: (v: Violation) => void;
 }) {
+  const missing = violations ? missingPairCount(violations) : null;
   return (
     <div className="rounded-xl border border-slate-700 bg-slate-900/50 p-3 text-sm">
       <div className="flex items-center justify-between mb-1">
@@ -1571,6 +3659,38 @@ function RelationPropertyRow({
         </span>
       </div>
       <p className="text-slate-300 text-xs">{detail}</p>
+      {violations && violations.length > 0 && (
+        <div className="mt-2 space-y-1">
+          <div className="text-xs text-rose-300">
+            {violations.length === 1
+              ? `1 ${unit?.[0]} falla`
+              : `${violations.length} ${unit?.[1]} fallan`}
+            {missing !== null &&
+              ` · faltan ${missing} ${missing === 1 ? "par distinto" : "pares distintos"} en R`}
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {violations.slice(0, MAX_VIOLATIONS_VIEW).map((v) => (
+              <button
+                key={v.label}
+                onClick={() => onPick?.(v)}
+                className={
+                  "px-2 py-0.5 rounded-md border font-mono text-[11px] transition " +
+                  (picked === v.label
+                    ? "border-amber-400 bg-amber-400/20 text-amber-200"
+                    : "border-slate-700 bg-slate-900/60 text-slate-300 hover:border-rose-400")
+                }
+              >
+                {v.label}
+              </button>
+            ))}
+            {violations.length > MAX_VIOLATIONS_VIEW && (
+              <span className="text-[11px] text-slate-400">
+                … y {violations.length - MAX_VIOLATIONS_VIEW} más
+              </span>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,432 @@
+// ——— Predicados sobre elementos (para notación constructora {x ∈ U | …}) ———
+// Gramática (de menor a mayor precedencia):
+//   or   := and (("∨" | "o" | "or" | "||") and)*
+//   and  := not (("∧" | "y" | "and" | "&&") not)*
+//   not  := ("¬" | "no" | "not" | "!") not | rel
+//   rel  := sum [("=" | "≠" | "<" | "≤" | ">" | "≥") sum | ("∈" | "∉") NOMBRE | "es" ["no"] PROPIEDAD]
+//   sum  := prod (("+" | "-") prod)*
+//   prod := un (("*" | "/" | "mod" | "%") un)*
+//   un   := "-" un | NÚMERO | "texto" | FUNCIÓN "(" or ("," or)* ")" | VARIABLE | "(" or ")"
+// Las variables valen el texto del elemento; se leen como número cuando hace falta.
+// Funciones: abs, gcd (mcd), lcm (mcm), min, max, mod, len, common (letras en común), first, last.
+import type { ExprError } from "./expresiones";
+
+export type PredValue = number | string | boolean;
+
+type ArithOp = "+" | "-" | "*" | "/" | "mod";
+type RelOp = "=" | "≠" | "<" | "≤" | ">" | "≥";
+type Property = "primo" | "par" | "impar";
+
+export type PredExpr =
+  | { kind: "num"; value: number; start: number; end: number }
+  | { kind: "str"; value: string; start: number; end: number }
+  | { kind: "var"; name: string; start: number; end: number }
+  | { kind: "not"; arg: PredExpr; start: number; end: number }
+  | { kind: "neg"; arg: PredExpr; start: number; end: number }
+  | { kind: "logic"; op: "∧" | "∨"; left: PredExpr; right: PredExpr; start: number; end: number }
+  | { kind: "arith"; op: ArithOp; left: PredExpr; right: PredExpr; start: number; end: number }
+  | { kind: "rel"; op: RelOp; left: PredExpr; right: PredExpr; start: number; end: number }
+  | { kind: "member"; negated: boolean; elem: PredExpr; set: string; start: number; end: number }
+  | { kind: "is"; negated: boolean; arg: PredExpr; property: Property; start: number; end: number }
+  | { kind: "call"; name: string; args: PredExpr[]; start: number; end: number };
+
+export type PredEnv = {
+  vars: Record<string, string>;
+  lookupSet: (name: string) => Set<string> | undefined;
+};
+
+type Token =
+  | { type: "num"; value: number; start: number; end: number }
+  | { type: "str"; value: string; start: number; end: number }
+  | { type: "word"; value: string; start: number; end: number }
+  | { type: "sym"; value: string; start: number; end: number }
+  | { type: "eof"; start: number; end: number };
+
+class PredException extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+  }
+}
+
+// Alias de símbolos (incluye palabras clave en español e inglés)
+const symbolAlias: Record<string, string> = {
+  "!=": "≠",
+  "<>": "≠",
+  "<=": "≤",
+  ">=": "≥",
+  "&&": "∧",
+  "||": "∨",
+  "!": "¬",
+  "%": "mod",
+  y: "∧",
+  and: "∧",
+  o: "∨",
+  or: "∨",
+  no: "¬",
+  not: "¬",
+  in: "∈",
+  mod: "mod",
+};
+
+const properties: Property[] = ["primo", "par", "impar"];
+
+function gcd(a: number, b: number): number {
+  a = Math.abs(a);
+  b = Math.abs(b);
+  while (b) [a, b] = [b, a % b];
+  return a;
+}
+
+// Cada función recibe sus argumentos ya convertidos: números ("num") o textos ("str")
+type PredFunction =
+  | { args: "num"; arity: number; f: (...xs: number[]) => PredValue }
+  | { args: "str"; arity: number; f: (...xs: string[]) => PredValue };
+
+const predFunctions: Record<string, PredFunction> = {
+  abs: { args: "num", arity: 1, f: Math.abs },
+  gcd: { args: "num", arity: 2, f: gcd },
+  lcm: { args: "num", arity: 2, f: (a, b) => (a && b ? Math.abs(a * b) / gcd(a, b) : 0) },
+  min: { args: "num", arity: 2, f: Math.min },
+  max: { args: "num", arity: 2, f: Math.max },
+  mod: { args: "num", arity: 2, f: (a, b) => ((a % b) + Math.abs(b)) % Math.abs(b) },
+  len: { args: "str", arity: 1, f: (s) => Array.from(s).length },
+  common: {
+    args: "str",
+    arity: 2,
+    f: (s, t) => {
+      const other = t.toLowerCase();
+      return new Set(Array.from(s.toLowerCase()).filter((c) => other.includes(c))).size;
+    },
+  },
+  first: { args: "str", arity: 1, f: (s) => Array.from(s)[0] ?? "" },
+  last: { args: "str", arity: 1, f: (s) => Array.from(s).pop() ?? "" },
+};
+const functionAlias: Record<string, string> = { mcd: "gcd", mcm: "lcm", long: "len" };
+
+// vars: variables ligadas; se leen como nombres aunque coincidan con un alias ("y", "o", "no")
+function tokenize(input: string, vars: string[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (/\d/.test(ch)) {
+      let j = i;
+      while (j < input.length && /[\d.]/.test(input[j])) j++;
+      tokens.push({ type: "num", value: Number(input.slice(i, j)), start: i, end: j });
+      i = j;
+    } else if (ch === '"') {
+      const close = input.indexOf('"', i + 1);
+      if (close < 0) throw new PredException("Falta cerrar las comillas", i, input.length);
+      tokens.push({ type: "str", value: input.slice(i + 1, close), start: i, end: close + 1 });
+      i = close + 1;
+    } else if (/[\p{L}_]/u.test(ch)) {
+      let j = i + 1;
+      while (j < input.length && /[\p{L}\p{N}_]/u.test(input[j])) j++;
+      const word = input.slice(i, j);
+      const alias = vars.includes(word) ? undefined : symbolAlias[word.toLowerCase()];
+      tokens.push(
+        alias
+          ? { type: "sym", value: alias, start: i, end: j }
+          : { type: "word", value: word, start: i, end: j }
+      );
+      i = j;
+    } else {
+      const two = input.slice(i, i + 2);
+      if (symbolAlias[two]) {
+        tokens.push({ type: "sym", value: symbolAlias[two], start: i, end: i + 2 });
+        i += 2;
+      } else if ("()+-*/=≠<>≤≥∧∨¬∈∉,".includes(ch)) {
+        tokens.push({ type: "sym", value: symbolAlias[ch] ?? ch, start: i, end: i + 1 });
+        i++;
+      } else if (symbolAlias[ch]) {
+        tokens.push({ type: "sym", value: symbolAlias[ch], start: i, end: i + 1 });
+        i++;
+      } else {
+        throw new PredException(`Carácter inesperado '${ch}'`, i, i + 1);
+      }
+    }
+  }
+  tokens.push({ type: "eof", start: input.length, end: input.length });
+  return tokens;
+}
+
+export function parsePredicate(
+  input: string,
+  vars: string[] = []
+): { ok: true; ast: PredExpr } | ExprError {
+  try {
+    const tokens = tokenize(input, vars);
+    let p = 0;
+    const peek = () => tokens[p];
+    const next = () => tokens[p++];
+    const isSym = (t: Token, ...values: string[]) => t.type === "sym" && values.includes(t.value);
+
+    const parseOr = (): PredExpr => {
+      let left = parseAnd();
+      while (isSym(peek(), "∨")) {
+        next();
+        const right = parseAnd();
+        left = { kind: "logic", op: "∨", left, right, start: left.start, end: right.end };
+      }
+      return left;
+    };
+
+    const parseAnd = (): PredExpr => {
+      let left = parseNot();
+      while (isSym(peek(), "∧")) {
+        next();
+        const right = parseNot();
+        left = { kind: "logic", op: "∧", left, right, start: left.start, end: right.end };
+      }
+      return left;
+    };
+
+    const parseNot = (): PredExpr => {
+      const t = peek();
+      if (isSym(t, "¬")) {
+        next();
+        const arg = parseNot();
+        return { kind: "not", arg, start: t.start, end: arg.end };
+      }
+      return parseRel();
+    };
+
+    const parseRel = (): PredExpr => {
+      const left = parseSum();
+      const t = peek();
+      if (isSym(t, "=", "≠", "<", "≤", ">", "≥")) {
+        next();
+        const right = parseSum();
+        const op = (t as { value: string }).value as RelOp;
+        return { kind: "rel", op, left, right, start: left.start, end: right.end };
+      }
+      if (isSym(t, "∈", "∉")) {
+        next();
+        const name = next();
+        // Tras ∈ siempre va un conjunto, aunque su nombre sea un alias ("o", "no")
+        const setName = input.slice(name.start, name.end);
+        if (name.type !== "word" && !/^[\p{L}_][\p{L}\p{N}_]*$/u.test(setName)) {
+          throw new PredException("Se esperaba el nombre de un conjunto", name.start, name.end);
+        }
+        return {
+          kind: "member",
+          negated: isSym(t, "∉"),
+          elem: left,
+          set: setName,
+          start: left.start,
+          end: name.end,
+        };
+      }
+      // "x es primo", "x es par", "x no es impar"
+      const negated = isSym(t, "¬") && tokens[p + 1]?.type === "word" && (tokens[p + 1] as { value: string }).value === "es";
+      if (negated || (t.type === "word" && t.value === "es")) {
+        if (negated) next();
+        next();
+        const prop = next();
+        if (prop.type !== "word" || !properties.includes(prop.value as Property)) {
+          throw new PredException("Se esperaba primo, par o impar", prop.start, prop.end);
+        }
+        return {
+          kind: "is",
+          negated,
+          arg: left,
+          property: prop.value as Property,
+          start: left.start,
+          end: prop.end,
+        };
+      }
+      return left;
+    };
+
+    const parseSum = (): PredExpr => {
+      let left = parseProd();
+      while (isSym(peek(), "+", "-")) {
+        const op = (next() as { value: string }).value as ArithOp;
+        const right = parseProd();
+        left = { kind: "arith", op, left, right, start: left.start, end: right.end };
+      }
+      return left;
+    };
+
+    const parseProd = (): PredExpr => {
+      let left = parseUnary();
+      while (isSym(peek(), "*", "/", "mod")) {
+        const op = (next() as { value: string }).value as ArithOp;
+        const right = parseUnary();
+        left = { kind: "arith", op, left, right, start: left.start, end: right.end };
+      }
+      return left;
+    };
+
+    const parseUnary = (): PredExpr => {
+      const t = next();
+      if (isSym(t, "-")) {
+        const arg = parseUnary();
+        return { kind: "neg", arg, start: t.start, end: arg.end };
+      }
+      if (t.type === "num") return { kind: "num", value: t.value, start: t.start, end: t.end };
+      if (t.type === "str") return { kind: "str", value: t.value, start: t.start, end: t.end };
+      // Llamada a función: gcd(a, b), len(a), mod(a, 3)…
+      if ((t.type === "word" || isSym(t, "mod")) && isSym(peek(), "(")) {
+        const word = (t as { value: string }).value.toLowerCase();
+        const name = functionAlias[word] ?? word;
+        const fn = predFunctions[name];
+        if (!fn) throw new PredException(`Función desconocida '${word}'`, t.start, t.end);
+        next();
+        const args = [parseOr()];
+        while (isSym(peek(), ",")) {
+          next();
+          args.push(parseOr());
+        }
+        const close = next();
+        if (!isSym(close, ")")) {
+          throw new PredException("Falta ')' para cerrar la llamada", t.start, close.end);
+        }
+        if (args.length !== fn.arity) {
+          throw new PredException(
+            `${name} recibe ${fn.arity} ${fn.arity === 1 ? "argumento" : "argumentos"}`,
+            t.start,
+            close.end
+          );
+        }
+        return { kind: "call", name, args, start: t.start, end: close.end };
+      }
+      if (t.type === "word") return { kind: "var", name: t.value, start: t.start, end: t.end };
+      if (isSym(t, "(")) {
+        const inner = parseOr();
+        const close = next();
+        if (!isSym(close, ")")) {
+          throw new PredException("Falta ')' para cerrar el paréntesis", t.start, close.end);
+        }
+        return { ...inner, start: t.start, end: close.end };
+      }
+      if (t.type === "eof") {
+        throw new PredException("El predicado termina antes de tiempo", t.start, t.end);
+      }
+      throw new PredException("Se esperaba un número, una variable o '('", t.start, t.end);
+    };
+
+    const ast = parseOr();
+    const rest = peek();
+    if (rest.type !== "eof") {
+      throw new PredException("Sobra texto al final del predicado", rest.start, rest.end);
+    }
+    return { ok: true, ast };
+  } catch (e) {
+    if (e instanceof PredException) {
+      return { ok: false, error: e.message, start: e.start, end: e.end };
+    }
+    throw e;
+  }
+}
+
+export function isPrime(n: number): boolean {
+  if (!Number.isInteger(n) || n < 2) return false;
+  for (let d = 2; d * d <= n; d++) if (n % d === 0) return false;
+  return true;
+}
+
+export function evalPredicate(ast: PredExpr, env: PredEnv): { ok: true; value: PredValue } | ExprError {
+  const num = (node: PredExpr): number => {
+    const v = go(node);
+    if (typeof v === "number") return v;
+    if (typeof v === "string" && v.trim() !== "" && !isNaN(Number(v))) return Number(v);
+    throw new PredException(`'${String(v)}' no es un número`, node.start, node.end);
+  };
+  const bool = (node: PredExpr): boolean => {
+    const v = go(node);
+    if (typeof v === "boolean") return v;
+    throw new PredException("Se esperaba una condición (verdadero/falso)", node.start, node.end);
+  };
+
+  const go = (node: PredExpr): PredValue => {
+    switch (node.kind) {
+      case "num":
+      case "str":
+        return node.value;
+      case "var": {
+        const v = env.vars[node.name];
+        if (v === undefined) {
+          throw new PredException(`Variable desconocida '${node.name}'`, node.start, node.end);
+        }
+        return v;
+      }
+      case "not":
+        return !bool(node.arg);
+      case "neg":
+        return -num(node.arg);
+      case "logic":
+        return node.op === "∧"
+          ? bool(node.left) && bool(node.right)
+          : bool(node.left) || bool(node.right);
+      case "arith": {
+        const a = num(node.left);
+        const b = num(node.right);
+        if (node.op === "+") return a + b;
+        if (node.op === "-") return a - b;
+        if (node.op === "*") return a * b;
+        if (b === 0) throw new PredException("División entre cero", node.start, node.end);
+        if (node.op === "/") return a / b;
+        return ((a % b) + Math.abs(b)) % Math.abs(b);
+      }
+      case "rel": {
+        const l = go(node.left);
+        const r = go(node.right);
+        const numeric = (v: PredValue) =>
+          typeof v === "number" || (typeof v === "string" && v.trim() !== "" && !isNaN(Number(v)));
+        if (node.op === "=" || node.op === "≠") {
+          const same = numeric(l) && numeric(r) ? Number(l) === Number(r) : String(l) === String(r);
+          return node.op === "=" ? same : !same;
+        }
+        const a = num(node.left);
+        const b = num(node.right);
+        if (node.op === "<") return a < b;
+        if (node.op === "≤") return a <= b;
+        if (node.op === ">") return a > b;
+        return a >= b;
+      }
+      case "member": {
+        let S: Set<string> | undefined;
+        try {
+          S = env.lookupSet(node.set);
+        } catch (e) {
+          // p. ej. una referencia circular entre conjuntos definidos por predicado
+          throw new PredException((e as Error).message, node.end - node.set.length, node.end);
+        }
+        if (!S) {
+          throw new PredException(`Conjunto desconocido '${node.set}'`, node.end - node.set.length, node.end);
+        }
+        const has = S.has(String(go(node.elem)));
+        return node.negated ? !has : has;
+      }
+      case "is": {
+        const n = num(node.arg);
+        const holds =
+          node.property === "primo" ? isPrime(n) : node.property === "par" ? n % 2 === 0 : Math.abs(n % 2) === 1;
+        return node.negated ? !holds : holds;
+      }
+      case "call": {
+        const fn = predFunctions[node.name];
+        if (fn.args === "str") return fn.f(...node.args.map((arg) => String(go(arg))));
+        const xs = node.args.map(num);
+        if (node.name === "mod" && xs[1] === 0) {
+          throw new PredException("División entre cero", node.start, node.end);
+        }
+        return fn.f(...xs);
+      }
+    }
+  };
+
+  try {
+    return { ok: true, value: go(ast) };
+  } catch (e) {
+    if (e instanceof PredException) {
+      return { ok: false, error: e.message, start: e.start, end: e.end };
+    }
+    throw e;
+  }
+}
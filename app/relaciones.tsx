@@ -0,0 +1,1026 @@
+// ——— Cerraduras de relaciones sobre la matriz M_R (filas y columnas en orden de U) ———
+import React from "react";
+import { formatSetLiteral, scanListInput, uniq } from "./conjuntos";
+import type { ExprError } from "./expresiones";
+import { MatrixTable } from "./matrix";
+import { closureFromRelation } from "./maximominimo";
+import { evalPredicate, parsePredicate } from "./predicados";
+
+type Elem = string;
+type Pair = [Elem, Elem];
+type Cell = [number, number];
+
+const pairKey = (a: Elem, b: Elem) => `${a}|||${b}`;
+
+export type ClosureKind = "reflexive" | "symmetric" | "transitive" | "equivalence";
+
+export const closureNames: Record<ClosureKind, string> = {
+  reflexive: "Reflexiva",
+  symmetric: "Simétrica",
+  transitive: "Transitiva",
+  equivalence: "Equivalencia",
+};
+
+// Paso k de Warshall: W_k permite pasar por los primeros k elementos (pivote = k-ésimo)
+export type WarshallStep = { k: number; matrix: number[][]; added: Cell[] };
+
+export type ClosureResult = {
+  kind: ClosureKind;
+  matrix: number[][];
+  added: Cell[]; // celdas que valían 0 en M_R y 1 en la cerradura
+  steps: WarshallStep[] | null; // W₀ … Wₙ (solo la transitiva)
+};
+
+const copy = (M: number[][]) => M.map((row) => [...row]);
+
+export function addedCells(before: number[][], after: number[][]): Cell[] {
+  const out: Cell[] = [];
+  after.forEach((row, i) => row.forEach((v, j) => v && !before[i][j] && out.push([i, j])));
+  return out;
+}
+
+export function matrixToPairs(labels: Elem[], M: number[][]): Pair[] {
+  const out: Pair[] = [];
+  M.forEach((row, i) => row.forEach((v, j) => v && out.push([labels[i], labels[j]])));
+  return out;
+}
+
+export function reflexiveClosure(M: number[][]): number[][] {
+  return M.map((row, i) => row.map((v, j) => (i === j ? 1 : v)));
+}
+
+export function symmetricClosure(M: number[][]): number[][] {
+  return M.map((row, i) => row.map((v, j) => (v || M[j][i] ? 1 : 0)));
+}
+
+// Warshall: W_k[i][j] = W_{k-1}[i][j] ∨ (W_{k-1}[i][k] ∧ W_{k-1}[k][j])
+export function warshallSteps(M: number[][]): WarshallStep[] {
+  const steps: WarshallStep[] = [{ k: 0, matrix: copy(M), added: [] }];
+  let W = copy(M);
+  for (let k = 0; k < M.length; k++) {
+    const next = W.map((row, i) => row.map((v, j) => (v || (W[i][k] && W[k][j]) ? 1 : 0)));
+    steps.push({ k: k + 1, matrix: next, added: addedCells(W, next) });
+    W = next;
+  }
+  return steps;
+}
+
+export function closureOf(kind: ClosureKind, labels: Elem[], M: number[][]): ClosureResult {
+  if (kind === "transitive") {
+    const steps = warshallSteps(M);
+    const matrix = steps[steps.length - 1].matrix;
+    return { kind, matrix, added: addedCells(M, matrix), steps };
+  }
+  let matrix: number[][];
+  if (kind === "reflexive") matrix = reflexiveClosure(M);
+  else if (kind === "symmetric") matrix = symmetricClosure(M);
+  else {
+    // Equivalencia = cerradura reflexiva y transitiva de la simétrica
+    const reach = closureFromRelation(new Set(labels), matrixToPairs(labels, symmetricClosure(M)));
+    matrix = labels.map((a) => labels.map((b) => (reach.has(pairKey(a, b)) ? 1 : 0)));
+  }
+  return { kind, matrix, added: addedCells(M, matrix), steps: null };
+}
+
+// ——— Operaciones entre relaciones sobre U (matrices booleanas) ———
+export const booleanJoin = (A: number[][], B: number[][]) =>
+  A.map((row, i) => row.map((v, j) => (v || B[i][j] ? 1 : 0)));
+
+export const booleanMeet = (A: number[][], B: number[][]) =>
+  A.map((row, i) => row.map((v, j) => (v && B[i][j] ? 1 : 0)));
+
+// (A ⊙ B)[i][j] = 1 si hay algún k con A[i][k] = B[k][j] = 1
+export const booleanProduct = (A: number[][], B: number[][]) =>
+  A.map((row) => B.map((_, j) => (row.some((v, k) => v && B[k][j]) ? 1 : 0)));
+
+export const transpose = (A: number[][]) => A.map((row, i) => row.map((_, j) => A[j][i]));
+
+export const matrixComplement = (A: number[][]) => A.map((row) => row.map((v) => (v ? 0 : 1)));
+
+export const MAX_RELATION_POWER = 1000000;
+
+// M^[0] es la identidad (la relación Δ_U). Las potencias se vuelven periódicas: en cuanto
+// una se repite, el resto de la sucesión se lee del ciclo sin seguir multiplicando
+export function booleanPower(A: number[][], n: number): number[][] {
+  const powers = [A.map((row, i) => row.map((_, j) => (i === j ? 1 : 0)))];
+  const seen = new Map<string, number>([[powers[0].join(";"), 0]]);
+  for (let k = 1; k <= n; k++) {
+    const P = booleanProduct(powers[k - 1], A);
+    const first = seen.get(P.join(";"));
+    if (first !== undefined) return powers[first + ((n - first) % (k - first))];
+    seen.set(P.join(";"), k);
+    powers.push(P);
+  }
+  return powers[n];
+}
+
+export type RelationOp =
+  | "compose"
+  | "inverse"
+  | "complement"
+  | "power"
+  | "union"
+  | "intersection"
+  | "difference";
+
+export const relationOpNames: Record<RelationOp, string> = {
+  compose: "Composición",
+  inverse: "Inversa",
+  complement: "Complemento",
+  power: "Potencia",
+  union: "Unión",
+  intersection: "Intersección",
+  difference: "Diferencia",
+};
+
+const superscript = (n: number) =>
+  String(n)
+    .split("")
+    .map((d) => "⁰¹²³⁴⁵⁶⁷⁸⁹"[Number(d)])
+    .join("");
+
+// x, y son los nombres de los operandos (R, S en cualquier orden); los unarios solo usan x.
+// En la composición y ∘ x primero se aplica x: (a,c) si (a,b) ∈ x y (b,c) ∈ y.
+export function relationOpLabel(op: RelationOp, x: string, y: string, n: number): string {
+  switch (op) {
+    case "compose":
+      return `${y} ∘ ${x}`;
+    case "inverse":
+      return `${x}⁻¹`;
+    case "complement":
+      return `${x}′`;
+    case "power":
+      return `${x}${superscript(n)}`;
+    case "union":
+      return `${x} ∪ ${y}`;
+    case "intersection":
+      return `${x} ∩ ${y}`;
+    case "difference":
+      return `${x} − ${y}`;
+  }
+}
+
+export function relationOp(
+  op: RelationOp,
+  X: { name: string; matrix: number[][] },
+  Y: { name: string; matrix: number[][] },
+  n: number
+): { label: string; formula: string; matrix: number[][] } {
+  const [x, y] = [`M(${X.name})`, `M(${Y.name})`];
+  const label = relationOpLabel(op, X.name, Y.name, n);
+  const [formula, matrix] =
+    op === "compose"
+      ? [`${x} ⊙ ${y}`, booleanProduct(X.matrix, Y.matrix)]
+      : op === "inverse"
+      ? [`${x}ᵀ`, transpose(X.matrix)]
+      : op === "complement"
+      ? [`¬${x} (respecto a U × U)`, matrixComplement(X.matrix)]
+      : op === "power"
+      ? [`${x}^[${n}]${n === 0 ? " = identidad" : ""}`, booleanPower(X.matrix, n)]
+      : op === "union"
+      ? [`${x} ∨ ${y}`, booleanJoin(X.matrix, Y.matrix)]
+      : op === "intersection"
+      ? [`${x} ∧ ${y}`, booleanMeet(X.matrix, Y.matrix)]
+      : [`${x} ∧ ¬${y}`, booleanMeet(X.matrix, matrixComplement(Y.matrix))];
+  return { label, formula: `M(${label}) = ${formula}`, matrix };
+}
+
+// ——— Clases de equivalencia y conjunto cociente ———
+// [x] es la fila de x en M_R; las clases se listan en el orden de U, sin repetir
+export function equivalenceClasses(labels: Elem[], M: number[][]): Elem[][] {
+  const placed = new Set<number>();
+  const out: Elem[][] = [];
+  labels.forEach((_, i) => {
+    if (placed.has(i)) return;
+    const members = labels.map((_, j) => j).filter((j) => M[i][j]);
+    members.forEach((j) => placed.add(j));
+    out.push(members.map((j) => labels[j]));
+  });
+  return out;
+}
+
+// U/R = {[x] : x ∈ U}, con cada clase en forma canónica
+export function formatQuotient(classes: Elem[][]): string {
+  return formatSetLiteral(classes.map(formatSetLiteral));
+}
+
+// "{1,2}{3}{4,5,6}": bloques no vacíos, ajenos y que cubren U
+export function parsePartition(
+  input: string,
+  U: Set<Elem>
+): { ok: true; blocks: Elem[][] } | ExprError {
+  const fail = (error: string, start: number, end: number): ExprError => ({
+    ok: false,
+    error,
+    start,
+    end,
+  });
+  const blocks: Elem[][] = [];
+  const owner = new Map<Elem, number>();
+  let p = 0;
+  while (p < input.length) {
+    if (/[\s,;]/.test(input[p])) {
+      p++;
+      continue;
+    }
+    if (input[p] !== "{") {
+      const word = input.slice(p).match(/^[^\s,;{]+/)?.[0] ?? input[p];
+      return fail("Cada bloque va entre llaves, p. ej. {1,2}{3}", p, p + word.length);
+    }
+    let depth = 0;
+    let close = -1;
+    for (let i = p; i < input.length && close < 0; i++) {
+      if (input[i] === "{") depth++;
+      else if (input[i] === "}" && --depth === 0) close = i;
+    }
+    if (close < 0) return fail("Falta cerrar la llave }", p, input.length);
+
+    // El bloque con sus llaves: así {{1,2}} es un bloque con el elemento {1,2}
+    const { tokens, error } = scanListInput(input.slice(p, close + 1));
+    if (error) return fail(error.error, p + error.start, p + error.end);
+    if (tokens.length === 0) {
+      return fail("Un bloque de una partición no puede ser vacío", p, close + 1);
+    }
+    for (const t of tokens) {
+      for (const x of t.elems) {
+        if (!U.has(x)) return fail(`${x} no está en U`, p + t.start, p + t.end);
+        const other = owner.get(x);
+        if (other !== undefined && other !== blocks.length) {
+          return fail(`${x} ya está en el bloque ${other + 1}`, p + t.start, p + t.end);
+        }
+        owner.set(x, blocks.length);
+      }
+    }
+    blocks.push(uniq(tokens.flatMap((t) => t.elems)));
+    p = close + 1;
+  }
+  const missing = Array.from(U).filter((x) => !owner.has(x));
+  if (missing.length > 0) {
+    return fail(`Faltan elementos de U: ${missing.join(", ")}`, 0, input.length);
+  }
+  return { ok: true, blocks };
+}
+
+// Relación de equivalencia de una partición: a R b si están en el mismo bloque
+export function relationFromPartition(blocks: Elem[][]): Pair[] {
+  return blocks.flatMap((b) => b.flatMap((x) => b.map((y): Pair => [x, y])));
+}
+
+// ——— Reparación: llevar R a preorden, orden parcial o equivalencia ———
+export type RepairKind = "partialOrder" | "preorder" | "equivalence";
+
+export const repairNames: Record<RepairKind, string> = {
+  partialOrder: "Orden parcial",
+  preorder: "Preorden",
+  equivalence: "Equivalencia",
+};
+
+// exact: false si algún ciclo era tan grande que se usó la heurística para romperlo
+export type RepairResult = { matrix: number[][]; added: Cell[]; removed: Cell[]; exact: boolean };
+
+const MAX_EXACT_CYCLE = 12;
+
+const preorderClosure = (M: number[][]) => {
+  const steps = warshallSteps(reflexiveClosure(M));
+  return steps[steps.length - 1].matrix;
+};
+
+// Orden lineal de una componente que deja el mínimo de pares "hacia atrás" (i después de j con
+// (i,j) ∈ R). Programación dinámica sobre subconjuntos; en componentes grandes, voraz.
+function bestOrder(nodes: number[], M: number[][]): { order: number[]; exact: boolean } {
+  const k = nodes.length;
+  if (k > MAX_EXACT_CYCLE) {
+    const rest = [...nodes];
+    const order: number[] = [];
+    while (rest.length) {
+      const incoming = (v: number) => rest.filter((u) => u !== v && M[u][v]).length;
+      const v = rest.reduce((best, x) => (incoming(x) < incoming(best) ? x : best));
+      order.push(v);
+      rest.splice(rest.indexOf(v), 1);
+    }
+    return { order, exact: false };
+  }
+  const full = (1 << k) - 1;
+  const cost = Array(full + 1).fill(Infinity);
+  const last = Array(full + 1).fill(-1);
+  cost[0] = 0;
+  for (let S = 0; S < full; S++) {
+    if (cost[S] === Infinity) continue;
+    for (let v = 0; v < k; v++) {
+      if (S & (1 << v)) continue;
+      // v va después de todos los de S: sus pares hacia S quedan hacia atrás
+      let back = 0;
+      for (let u = 0; u < k; u++) if (S & (1 << u) && M[nodes[v]][nodes[u]]) back++;
+      const T = S | (1 << v);
+      if (cost[S] + back < cost[T]) {
+        cost[T] = cost[S] + back;
+        last[T] = v;
+      }
+    }
+  }
+  const order: number[] = [];
+  for (let S = full; S; S &= ~(1 << last[S])) order.unshift(nodes[last[S]]);
+  return { order, exact: true };
+}
+
+// Preorden y equivalencia: la cerradura es la menor relación que contiene a R (solo se agrega).
+// Orden parcial: se quitan los menos pares posibles para romper los ciclos y luego se cierra;
+// lo mínimo es lo quitado, no la suma de quitados y agregados.
+export function repairRelation(kind: RepairKind, labels: Elem[], M: number[][]): RepairResult {
+  if (kind === "equivalence") {
+    const matrix = closureOf("equivalence", labels, M).matrix;
+    return { matrix, added: addedCells(M, matrix), removed: [], exact: true };
+  }
+  if (kind === "preorder") {
+    const matrix = preorderClosure(M);
+    return { matrix, added: addedCells(M, matrix), removed: [], exact: true };
+  }
+  // Componentes fuertemente conexas: i y j se alcanzan mutuamente
+  const reach = preorderClosure(M);
+  const n = M.length;
+  const seen = new Set<number>();
+  const removed: Cell[] = [];
+  let exact = true;
+  for (let i = 0; i < n; i++) {
+    if (seen.has(i)) continue;
+    const scc: number[] = [];
+    for (let j = 0; j < n; j++) if (reach[i][j] && reach[j][i]) scc.push(j);
+    scc.forEach((j) => seen.add(j));
+    if (scc.length < 2) continue;
+    const best = bestOrder(scc, M);
+    exact &&= best.exact;
+    const pos = new Map(best.order.map((v, p) => [v, p]));
+    for (const a of scc) {
+      for (const b of scc) {
+        if (a !== b && M[a][b] && pos.get(a)! > pos.get(b)!) removed.push([a, b]);
+      }
+    }
+  }
+  const base = copy(M);
+  removed.forEach(([a, b]) => (base[a][b] = 0));
+  const matrix = preorderClosure(base);
+  return { matrix, added: addedCells(M, matrix), removed, exact };
+}
+
+// ——— Relaciones definidas por una regla: R = {(a,b) ∈ U × U | P(a,b)} ———
+export const relationTemplates: { name: string; rule: string }[] = [
+  { name: "a divide a b", rule: "a ≠ 0 y b mod a = 0" },
+  { name: "a ≤ b", rule: "a ≤ b" },
+  { name: "a < b", rule: "a < b" },
+  { name: "a = b (identidad)", rule: "a = b" },
+  { name: "a ≡ b (mod 3)", rule: "(a - b) mod 3 = 0" },
+  { name: "|a − b| ≤ 1", rule: "abs(a - b) ≤ 1" },
+  { name: "a y b son coprimos", rule: "gcd(a, b) = 1" },
+  { name: "a + b es par", rule: "a + b es par" },
+  { name: "Comparten una letra", rule: "common(a, b) > 0" },
+  { name: "Misma longitud", rule: "len(a) = len(b)" },
+  { name: "Empiezan con la misma letra", rule: "first(a) = first(b)" },
+];
+
+// Evalúa la regla en cada (a,b); un error se reporta con la posición en la regla
+export function relationFromRule(
+  rule: string,
+  U: Elem[],
+  lookupSet: (name: string) => Set<Elem> | undefined
+): { ok: true; pairs: Pair[] } | ExprError {
+  const parsed = parsePredicate(rule, ["a", "b"]);
+  if (!parsed.ok) return parsed;
+  const pairs: Pair[] = [];
+  for (const a of U) {
+    for (const b of U) {
+      const r = evalPredicate(parsed.ast, { vars: { a, b }, lookupSet });
+      if (!r.ok) return { ...r, error: `${r.error} (con a = ${a}, b = ${b})` };
+      if (typeof r.value !== "boolean") {
+        return {
+          ok: false,
+          error: "La regla debe ser una condición sobre a y b (p. ej. a ≤ b)",
+          start: 0,
+          end: rule.length,
+        };
+      }
+      if (r.value) pairs.push([a, b]);
+    }
+  }
+  return { ok: true, pairs };
+}
+
+// ——— Clases de relaciones según las propiedades que cumple R ———
+export type RelationProperty =
+  | "reflexive"
+  | "irreflexive"
+  | "symmetric"
+  | "antisymmetric"
+  | "asymmetric"
+  | "transitive"
+  | "connex"
+  | "trichotomous"
+  | "euclidean";
+
+export type RelationClass =
+  | "preorder"
+  | "partialOrder"
+  | "totalOrder"
+  | "equivalence"
+  | "tolerance"
+  | "strictPartialOrder"
+  | "strictTotalOrder";
+
+export const relationClasses: {
+  id: RelationClass;
+  name: string;
+  requires: RelationProperty[];
+  rule: string;
+}[] = [
+  {
+    id: "preorder",
+    name: "Preorden",
+    requires: ["reflexive", "transitive"],
+    rule: "reflexiva y transitiva",
+  },
+  {
+    id: "partialOrder",
+    name: "Orden parcial",
+    requires: ["reflexive", "antisymmetric", "transitive"],
+    rule: "reflexiva, antisimétrica y transitiva",
+  },
+  {
+    id: "totalOrder",
+    name: "Orden total (lineal)",
+    requires: ["reflexive", "antisymmetric", "transitive", "connex"],
+    rule: "orden parcial y conexa (total)",
+  },
+  {
+    id: "equivalence",
+    name: "Equivalencia",
+    requires: ["reflexive", "symmetric", "transitive"],
+    rule: "reflexiva, simétrica y transitiva",
+  },
+  {
+    id: "tolerance",
+    name: "Tolerancia",
+    requires: ["reflexive", "symmetric"],
+    rule: "reflexiva y simétrica",
+  },
+  {
+    id: "strictPartialOrder",
+    name: "Orden parcial estricto",
+    requires: ["irreflexive", "transitive"],
+    rule: "irreflexiva y transitiva (por tanto asimétrica)",
+  },
+  {
+    id: "strictTotalOrder",
+    name: "Orden total estricto",
+    requires: ["irreflexive", "transitive", "trichotomous"],
+    rule: "orden parcial estricto y tricotómica",
+  },
+];
+
+export function classifyRelation(props: Record<RelationProperty, boolean>): RelationClass[] {
+  return relationClasses.filter((c) => c.requires.every((p) => props[p])).map((c) => c.id);
+}
+
+// ——— Todos los contraejemplos de cada propiedad (no solo el primero) ———
+// present: pares de R involucrados; missing: pares que faltan en R
+export type Violation = { label: string; present: Pair[]; missing: Pair[] };
+
+// Qué se cuenta en cada propiedad (singular, plural)
+export const violationUnits: Record<RelationProperty, [string, string]> = {
+  reflexive: ["elemento", "elementos"],
+  irreflexive: ["elemento", "elementos"],
+  symmetric: ["par", "pares"],
+  antisymmetric: ["par", "pares"],
+  asymmetric: ["par", "pares"],
+  transitive: ["terna", "ternas"],
+  connex: ["par", "pares"],
+  trichotomous: ["par", "pares"],
+  euclidean: ["terna", "ternas"],
+};
+
+const fmtPair = ([a, b]: Pair) => `(${a},${b})`;
+
+export function relationViolations(
+  U: Elem[],
+  pairs: Pair[]
+): Record<RelationProperty, Violation[]> {
+  const keys = new Set<string>();
+  const R = pairs.filter(([a, b]) => {
+    const k = pairKey(a, b);
+    if (keys.has(k)) return false;
+    keys.add(k);
+    return true;
+  });
+  const has = (a: Elem, b: Elem) => keys.has(pairKey(a, b));
+  // Para a ≠ b, cada par no ordenado {a, b} se reporta una sola vez
+  const unordered: Pair[] = [];
+  U.forEach((a, i) => U.slice(i).forEach((b) => unordered.push([a, b])));
+
+  const out: Record<RelationProperty, Violation[]> = {
+    reflexive: [],
+    irreflexive: [],
+    symmetric: [],
+    antisymmetric: [],
+    asymmetric: [],
+    transitive: [],
+    connex: [],
+    trichotomous: [],
+    euclidean: [],
+  };
+  for (const x of U) {
+    if (!has(x, x)) {
+      out.reflexive.push({ label: `falta (${x},${x})`, present: [], missing: [[x, x]] });
+    } else {
+      out.irreflexive.push({ label: `(${x},${x})`, present: [[x, x]], missing: [] });
+    }
+  }
+  for (const [a, b] of R) {
+    if (!has(b, a)) {
+      out.symmetric.push({
+        label: `(${a},${b}) sin (${b},${a})`,
+        present: [[a, b]],
+        missing: [[b, a]],
+      });
+    }
+  }
+  for (const [a, b] of unordered) {
+    const ab = has(a, b);
+    const ba = has(b, a);
+    const both: Violation = {
+      label: a === b ? `(${a},${a})` : `(${a},${b}) y (${b},${a})`,
+      present: a === b ? [[a, a]] : [[a, b], [b, a]],
+      missing: [],
+    };
+    const neither: Violation = {
+      label: a === b ? `falta (${a},${a})` : `ni (${a},${b}) ni (${b},${a})`,
+      present: [],
+      missing: a === b ? [[a, a]] : [[a, b], [b, a]],
+    };
+    if (ab && ba && a !== b) out.antisymmetric.push(both);
+    if (ab && ba) out.asymmetric.push(both);
+    if (!ab && !ba) out.connex.push(neither);
+    if (a === b ? ab : ab === ba) out.trichotomous.push(ab ? both : neither);
+  }
+  for (const ab of R) {
+    for (const cd of R) {
+      // Transitiva: (a,b), (b,d) ⇒ (a,d)
+      if (ab[1] === cd[0] && !has(ab[0], cd[1])) {
+        const ad: Pair = [ab[0], cd[1]];
+        out.transitive.push({
+          label: `${fmtPair(ab)}, ${fmtPair(cd)} ⇒ falta ${fmtPair(ad)}`,
+          present: [ab, cd],
+          missing: [ad],
+        });
+      }
+      // Euclidiana: (a,b), (a,d) ⇒ (b,d)
+      if (ab[0] === cd[0] && !has(ab[1], cd[1])) {
+        const bd: Pair = [ab[1], cd[1]];
+        out.euclidean.push({
+          label: `${fmtPair(ab)}, ${fmtPair(cd)} ⇒ falta ${fmtPair(bd)}`,
+          present: ab === cd ? [ab] : [ab, cd],
+          missing: [bd],
+        });
+      }
+    }
+  }
+  return out;
+}
+
+// Pares distintos que habría que agregar, cuando cada contraejemplo se arregla con un solo
+// par (reflexiva, simétrica, transitiva, euclidiana); null si hay que elegir entre varios
+export function missingPairCount(violations: Violation[]): number | null {
+  if (!violations.every((v) => v.missing.length === 1)) return null;
+  return new Set(violations.map((v) => pairKey(...v.missing[0]))).size;
+}
+
+// ——— Enumeración de relaciones sobre un U pequeño ———
+export type RelationFamily = "all" | "partialOrder" | "equivalence" | "totalOrder";
+
+// maxSize: |U| máximo que se recorre sin congelar la página
+export const relationFamilies: Record<
+  RelationFamily,
+  { name: string; maxSize: number; requires: RelationProperty[] }
+> = {
+  all: { name: "Todas las relaciones", maxSize: 4, requires: [] },
+  partialOrder: {
+    name: "Órdenes parciales",
+    maxSize: 5,
+    requires: ["reflexive", "antisymmetric", "transitive"],
+  },
+  equivalence: {
+    name: "Equivalencias",
+    maxSize: 8,
+    requires: ["reflexive", "symmetric", "transitive"],
+  },
+  totalOrder: {
+    name: "Órdenes totales",
+    maxSize: 7,
+    requires: ["reflexive", "antisymmetric", "transitive", "connex"],
+  },
+};
+
+// Mismas definiciones que las propiedades de R, pero sobre la matriz
+export function matrixProperties(M: number[][]): Record<RelationProperty, boolean> {
+  const n = M.length;
+  const p: Record<RelationProperty, boolean> = {
+    reflexive: true,
+    irreflexive: true,
+    symmetric: true,
+    antisymmetric: true,
+    asymmetric: true,
+    transitive: true,
+    connex: true,
+    trichotomous: true,
+    euclidean: true,
+  };
+  for (let i = 0; i < n; i++) {
+    if (M[i][i]) p.irreflexive = false;
+    else p.reflexive = false;
+    for (let j = 0; j < n; j++) {
+      const ij = M[i][j];
+      const ji = M[j][i];
+      if (ij && !ji) p.symmetric = false;
+      if (ij && ji) {
+        p.asymmetric = false;
+        if (i !== j) p.antisymmetric = false;
+      }
+      if (!ij && !ji) p.connex = false;
+      if (i === j ? ij : ij === ji) p.trichotomous = false;
+      if (!ij) continue;
+      for (let k = 0; k < n; k++) {
+        if (M[j][k] && !M[i][k]) p.transitive = false;
+        if (M[i][k] && !M[j][k]) p.euclidean = false;
+      }
+    }
+  }
+  return p;
+}
+
+const emptyMatrix = (n: number) => Array.from({ length: n }, () => Array(n).fill(0));
+
+function* familyMatrices(family: RelationFamily, n: number): Generator<number[][]> {
+  if (family === "all") {
+    for (let mask = 0; mask < 2 ** (n * n); mask++) {
+      yield Array.from({ length: n }, (_, i) =>
+        Array.from({ length: n }, (_, j) => (mask >> (i * n + j)) & 1)
+      );
+    }
+  } else if (family === "partialOrder") {
+    // Diagonal llena y, por cada par {i, j}: ninguno, i ≤ j o j ≤ i; luego se filtra por
+    // transitividad
+    const cells: [number, number][] = [];
+    for (let i = 0; i < n; i++) for (let j = i + 1; j < n; j++) cells.push([i, j]);
+    for (let code = 0; code < 3 ** cells.length; code++) {
+      const M = emptyMatrix(n);
+      for (let i = 0; i < n; i++) M[i][i] = 1;
+      let c = code;
+      for (const [i, j] of cells) {
+        if (c % 3 === 1) M[i][j] = 1;
+        if (c % 3 === 2) M[j][i] = 1;
+        c = Math.floor(c / 3);
+      }
+      if (matrixProperties(M).transitive) yield M;
+    }
+  } else if (family === "equivalence") {
+    // Cadenas de crecimiento restringido: block[i] ≤ 1 + máx(block[0..i−1])
+    const block = Array(n).fill(0);
+    const rec = function* (i: number, max: number): Generator<number[][]> {
+      if (i === n) {
+        yield block.map((a) => block.map((b) => (a === b ? 1 : 0)));
+        return;
+      }
+      for (let b = 0; b <= max + 1; b++) {
+        block[i] = b;
+        yield* rec(i + 1, Math.max(max, b));
+      }
+    };
+    if (n === 0) yield [];
+    else yield* rec(1, 0);
+  } else {
+    // Órdenes totales: una por permutación (posición en la cadena)
+    const rank = Array.from({ length: n }, (_, i) => i);
+    const rec = function* (k: number): Generator<number[][]> {
+      if (k === n) {
+        yield rank.map((a) => rank.map((b) => (a <= b ? 1 : 0)));
+        return;
+      }
+      for (let i = k; i < n; i++) {
+        [rank[k], rank[i]] = [rank[i], rank[k]];
+        yield* rec(k + 1);
+        [rank[k], rank[i]] = [rank[i], rank[k]];
+      }
+    };
+    yield* rec(0);
+  }
+}
+
+// true: debe cumplirla; false: no debe cumplirla; sin clave: da igual
+export type PropertyFilter = Partial<Record<RelationProperty, boolean>>;
+
+export function enumerateRelations(
+  family: RelationFamily,
+  n: number,
+  filter: PropertyFilter,
+  offset: number,
+  limit: number
+): { total: number; page: number[][][] } {
+  const wanted = Object.entries(filter) as [RelationProperty, boolean][];
+  let total = 0;
+  const page: number[][][] = [];
+  for (const M of familyMatrices(family, n)) {
+    const p = matrixProperties(M);
+    if (!wanted.every(([k, v]) => p[k] === v)) continue;
+    if (total >= offset && page.length < limit) page.push(M);
+    total++;
+  }
+  return { total, page };
+}
+
+// ——— Conteos conocidos (fórmula cerrada o sucesión de la OEIS) ———
+const factorial = (n: number): number => (n <= 1 ? 1 : n * factorial(n - 1));
+
+export function bellNumber(n: number): number {
+  // Triángulo de Bell
+  let row = [1];
+  for (let i = 0; i < n; i++) {
+    const next = [row[row.length - 1]];
+    row.forEach((x) => next.push(next[next.length - 1] + x));
+    row = next;
+  }
+  return row[0];
+}
+
+const fromTable = (values: number[]) => (n: number) => values[n] ?? null;
+
+const knownCounts: {
+  requires: RelationProperty[];
+  formula: string;
+  count: (n: number) => number | null;
+}[] = [
+  { requires: [], formula: "2^(n²)", count: (n) => 2 ** (n * n) },
+  { requires: ["reflexive"], formula: "2^(n² − n)", count: (n) => 2 ** (n * n - n) },
+  { requires: ["irreflexive"], formula: "2^(n² − n)", count: (n) => 2 ** (n * n - n) },
+  { requires: ["symmetric"], formula: "2^(n(n + 1)/2)", count: (n) => 2 ** ((n * (n + 1)) / 2) },
+  {
+    requires: ["antisymmetric"],
+    formula: "2^n · 3^(n(n − 1)/2)",
+    count: (n) => 2 ** n * 3 ** ((n * (n - 1)) / 2),
+  },
+  { requires: ["asymmetric"], formula: "3^(n(n − 1)/2)", count: (n) => 3 ** ((n * (n - 1)) / 2) },
+  { requires: ["connex"], formula: "3^(n(n − 1)/2)", count: (n) => 3 ** ((n * (n - 1)) / 2) },
+  {
+    requires: ["trichotomous"],
+    formula: "2^(n(n − 1)/2)",
+    count: (n) => 2 ** ((n * (n - 1)) / 2),
+  },
+  {
+    requires: ["reflexive", "symmetric"],
+    formula: "2^(n(n − 1)/2)",
+    count: (n) => 2 ** ((n * (n - 1)) / 2),
+  },
+  {
+    requires: ["irreflexive", "symmetric"],
+    formula: "2^(n(n − 1)/2)",
+    count: (n) => 2 ** ((n * (n - 1)) / 2),
+  },
+  {
+    requires: ["reflexive", "antisymmetric"],
+    formula: "3^(n(n − 1)/2)",
+    count: (n) => 3 ** ((n * (n - 1)) / 2),
+  },
+  { requires: ["reflexive", "symmetric", "transitive"], formula: "B(n) (Bell)", count: bellNumber },
+  {
+    requires: ["symmetric", "transitive"],
+    formula: "B(n + 1) (Bell)",
+    count: (n) => bellNumber(n + 1),
+  },
+  { requires: ["symmetric", "antisymmetric"], formula: "2^n", count: (n) => 2 ** n },
+  {
+    requires: ["reflexive", "antisymmetric", "transitive", "connex"],
+    formula: "n!",
+    count: factorial,
+  },
+  { requires: ["irreflexive", "transitive", "trichotomous"], formula: "n!", count: factorial },
+  {
+    requires: ["transitive"],
+    formula: "OEIS A006905",
+    count: fromTable([1, 2, 13, 171, 3994, 154303, 9415189]),
+  },
+  {
+    requires: ["reflexive", "transitive"],
+    formula: "OEIS A000798",
+    count: fromTable([1, 1, 4, 29, 355, 6942, 209527, 9535241]),
+  },
+  {
+    requires: ["reflexive", "antisymmetric", "transitive"],
+    formula: "OEIS A001035",
+    count: fromTable([1, 1, 3, 19, 219, 4231, 130023, 6129859]),
+  },
+  {
+    requires: ["irreflexive", "transitive"],
+    formula: "OEIS A001035",
+    count: fromTable([1, 1, 3, 19, 219, 4231, 130023, 6129859]),
+  },
+];
+
+// Propiedades que se siguen de otras, para reconocer combinaciones equivalentes
+function impliedProperties(props: RelationProperty[]): Set<RelationProperty> {
+  const out = new Set(props);
+  const rules: [RelationProperty[], RelationProperty[]][] = [
+    [["connex"], ["reflexive"]],
+    [["asymmetric"], ["irreflexive", "antisymmetric"]],
+    [["irreflexive", "antisymmetric"], ["asymmetric"]],
+    [["trichotomous"], ["irreflexive", "antisymmetric"]],
+    [["irreflexive", "transitive"], ["asymmetric"]],
+  ];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const [from, to] of rules) {
+      if (from.every((p) => out.has(p)) && to.some((p) => !out.has(p))) {
+        to.forEach((p) => out.add(p));
+        changed = true;
+      }
+    }
+  }
+  return out;
+}
+
+// Solo hay conteo conocido cuando el filtro exige propiedades (sin exigir que fallen)
+export function knownCount(
+  required: RelationProperty[],
+  n: number
+): { formula: string; value: number } | null {
+  const want = impliedProperties(required);
+  for (const k of knownCounts) {
+    const have = impliedProperties(k.requires);
+    if (have.size !== want.size || [...have].some((p) => !want.has(p))) continue;
+    const value = k.count(n);
+    return value === null ? null : { formula: k.formula, value };
+  }
+  return null;
+}
+
+// ——— UI ———
+const subscript = (n: number) =>
+  String(n)
+    .split("")
+    .map((d) => "₀₁₂₃₄₅₆₇₈₉"[Number(d)])
+    .join("");
+
+// Con más elementos las n + 1 matrices ya no caben en pantalla
+export const MAX_WARSHALL_VIEW = 12;
+
+export function WarshallStepsView({ labels, steps }: { labels: Elem[]; steps: WarshallStep[] }) {
+  return (
+    <div className="grid md:grid-cols-2 gap-4">
+      {steps.map((s) => (
+        <div key={s.k} className="rounded-xl border border-slate-700 bg-slate-900/40 p-3">
+          <div className="text-sm text-slate-200">
+            <span className="font-mono font-semibold">W{subscript(s.k)}</span>
+            {s.k === 0 ? (
+              <span className="text-slate-400"> = M_R</span>
+            ) : (
+              <span className="text-slate-400">
+                {" "}
+                · pivote {labels[s.k - 1]} (fila y columna {s.k})
+              </span>
+            )}
+          </div>
+          <MatrixTable
+            labels={labels}
+            data={s.matrix}
+            highlight={s.added}
+            pivot={s.k > 0 ? s.k - 1 : undefined}
+          />
+          {s.k > 0 && (
+            <p className="mt-1 text-xs text-slate-400">
+              {s.added.length === 0
+                ? "Sin cambios."
+                : `Nuevos: ${s.added.map(([i, j]) => `(${labels[i]},${labels[j]})`).join(", ")}`}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const classColors = [
+  "border-emerald-400/70 bg-emerald-400/10 text-emerald-200",
+  "border-amber-400/70 bg-amber-400/10 text-amber-200",
+  "border-sky-400/70 bg-sky-400/10 text-sky-200",
+  "border-rose-400/70 bg-rose-400/10 text-rose-200",
+  "border-violet-400/70 bg-violet-400/10 text-violet-200",
+];
+
+// Cada clase como un grupo de color, rotulado con su primer elemento: [x]
+export function PartitionView({ blocks }: { blocks: Elem[][] }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {blocks.map((b, k) => (
+        <div
+          key={b.join()}
+          className={"rounded-2xl border-2 px-3 py-2 " + classColors[k % classColors.length]}
+        >
+          <div className="text-xs font-semibold mb-1">[{b[0]}]</div>
+          <div className="flex flex-wrap gap-1">
+            {b.map((x) => (
+              <span key={x} className="px-2 py-0.5 rounded-md bg-slate-900/60 font-mono text-xs">
+                {x}
+              </span>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Diagrama tipo Venn de las clases: equivalencia = preorden ∩ tolerancia,
+// orden parcial ∩ tolerancia = identidad y los órdenes estrictos quedan aparte
+// (ninguna relación sobre U ≠ ∅ es a la vez reflexiva e irreflexiva)
+const classRegions: {
+  id: RelationClass;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  label: [number, number];
+}[] = [
+  { id: "preorder", x: 10, y: 10, w: 360, h: 280, label: [22, 30] },
+  { id: "tolerance", x: 230, y: 50, w: 250, h: 200, label: [470, 70] },
+  { id: "partialOrder", x: 30, y: 60, w: 240, h: 210, label: [42, 80] },
+  { id: "totalOrder", x: 50, y: 150, w: 150, h: 100, label: [62, 170] },
+  { id: "strictPartialOrder", x: 500, y: 10, w: 190, h: 280, label: [512, 30] },
+  { id: "strictTotalOrder", x: 520, y: 150, w: 150, h: 100, label: [532, 170] },
+];
+
+// Dónde cae R: la región más interna que le corresponde
+const classSpots: { test: (c: Set<RelationClass>) => boolean; x: number; y: number }[] = [
+  { test: (c) => c.has("totalOrder"), x: 125, y: 215 },
+  { test: (c) => c.has("partialOrder") && c.has("equivalence"), x: 250, y: 210 },
+  { test: (c) => c.has("partialOrder"), x: 150, y: 115 },
+  { test: (c) => c.has("equivalence"), x: 320, y: 150 },
+  { test: (c) => c.has("preorder"), x: 190, y: 280 },
+  { test: (c) => c.has("tolerance"), x: 425, y: 150 },
+  { test: (c) => c.has("strictTotalOrder"), x: 595, y: 215 },
+  { test: (c) => c.has("strictPartialOrder"), x: 595, y: 100 },
+];
+
+export function RelationClassDiagram({ classes }: { classes: RelationClass[] }) {
+  const member = new Set(classes);
+  const spot = classSpots.find((s) => s.test(member));
+  const name = (id: RelationClass) => relationClasses.find((c) => c.id === id)!.name;
+  return (
+    <svg viewBox="0 0 700 330" className="w-full max-w-[720px]">
+      {classRegions.map((r) => (
+        <g key={r.id}>
+          <rect
+            x={r.x}
+            y={r.y}
+            width={r.w}
+            height={r.h}
+            rx={18}
+            className={
+              member.has(r.id)
+                ? "fill-emerald-400/10 stroke-emerald-400"
+                : "fill-transparent stroke-slate-600"
+            }
+            strokeWidth={member.has(r.id) ? 2 : 1.2}
+          />
+          <text
+            x={r.label[0]}
+            y={r.label[1]}
+            textAnchor={r.id === "tolerance" ? "end" : "start"}
+            className={
+              "text-[12px] " + (member.has(r.id) ? "fill-emerald-300" : "fill-slate-400")
+            }
+          >
+            {name(r.id)}
+          </text>
+        </g>
+      ))}
+      <text x={300} y={110} textAnchor="middle" className="fill-slate-400 text-[11px]">
+        Equivalencia
+      </text>
+      <text x={250} y={190} textAnchor="middle" className="fill-slate-500 text-[10px]">
+        Identidad
+      </text>
+      {spot ? (
+        <g transform={`translate(${spot.x},${spot.y})`}>
+          <circle r={11} className="fill-amber-400 stroke-amber-200" strokeWidth={2} />
+          <text
+            textAnchor="middle"
+            dominantBaseline="central"
+            className="fill-slate-900 text-[12px] font-semibold"
+          >
+            R
+          </text>
+        </g>
+      ) : (
+        <text x={690} y={318} textAnchor="end" className="fill-amber-300 text-[12px]">
+          R no está en ninguna de estas clases
+        </text>
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,461 @@
+// ——— Diagramas de Venn (hasta 3 conjuntos) y de Euler proporcional ———
+import React, { useId } from "react";
+import type { Region } from "./conjuntos";
+
+type CircleSpec = { cx: number; cy: number; r: number };
+type Point = { x: number; y: number };
+
+const W = 600;
+const H = 460;
+
+// Círculos, posición de la etiqueta de cada conjunto y del texto de cada región (por máscara)
+const layouts: Record<number, { circles: CircleSpec[]; labels: Point[]; texts: Record<number, Point> }> = {
+  1: {
+    circles: [{ cx: 300, cy: 220, r: 170 }],
+    labels: [{ x: 150, y: 90 }],
+    texts: { 0: { x: 24, y: 400 }, 1: { x: 300, y: 220 } },
+  },
+  2: {
+    circles: [
+      { cx: 220, cy: 220, r: 150 },
+      { cx: 380, cy: 220, r: 150 },
+    ],
+    labels: [
+      { x: 80, y: 110 },
+      { x: 500, y: 110 },
+    ],
+    texts: {
+      0: { x: 24, y: 400 },
+      1: { x: 120, y: 220 },
+      2: { x: 430, y: 220 },
+      3: { x: 270, y: 220 },
+    },
+  },
+  3: {
+    circles: [
+      { cx: 220, cy: 180, r: 150 },
+      { cx: 380, cy: 180, r: 150 }, // B derecha
+      { cx: 300, cy: 300, r: 150 }, // C abajo
+    ],
+    labels: [
+      { x: 80, y: 120 },
+      { x: 500, y: 120 },
+      { x: 290, y: 420 },
+    ],
+    texts: {
+      0: { x: 24, y: 400 },
+      1: { x: 120, y: 170 },
+      2: { x: 480, y: 170 },
+      4: { x: 300, y: 360 },
+      3: { x: 290, y: 120 },
+      5: { x: 190, y: 240 },
+      6: { x: 390, y: 240 },
+      7: { x: 300, y: 200 },
+    },
+  },
+};
+
+export const regionFill: Record<number, string> = {
+  1: "fill-emerald-400/25",
+  2: "fill-amber-400/25",
+  4: "fill-sky-400/25",
+  3: "fill-rose-400/25",
+  5: "fill-violet-400/25",
+  6: "fill-lime-400/25",
+  7: "fill-fuchsia-400/30",
+};
+
+// Parte el listado de una región en renglones cortos para que quepa en el diagrama
+function lines(arr: string[]): string[] {
+  const s = arr.join(", ");
+  const chunks: string[] = [];
+  let cur = "";
+  for (const ch of s.split("")) {
+    cur += ch;
+    if (cur.length >= 22 && ch === " ") {
+      chunks.push(cur);
+      cur = "";
+    }
+  }
+  if (cur) chunks.push(cur);
+  return chunks;
+}
+
+// Dibujo común: U, regiones (recortes de círculos), círculos, etiquetas y textos por región
+function RegionPicture({
+  names,
+  regions,
+  circles,
+  labels,
+  texts,
+  highlight,
+  regionText,
+  onlyNonEmpty,
+}: {
+  names: string[];
+  regions: Region[];
+  circles: (CircleSpec | null)[];
+  labels: (Point | null)[];
+  texts: Record<number, Point>;
+  highlight?: Set<number>;
+  regionText?: (mask: number) => string;
+  onlyNonEmpty?: boolean;
+}) {
+  const uid = useId();
+  const clipId = (i: number) => `${uid}-clip-${i}`;
+  const maskId = (mask: number) => `${uid}-mask-${mask}`;
+  const shown = regions.filter(
+    ({ mask, items }) => texts[mask] && (!onlyNonEmpty || items.length > 0 || mask === 0)
+  );
+
+  // Región = dentro de los círculos de la máscara y fuera de los demás
+  const regionShape = (mask: number, className: string) => {
+    let node: React.ReactNode = (
+      <rect
+        x="4"
+        y="4"
+        width={W - 8}
+        height={H - 8}
+        rx="16"
+        mask={`url(#${maskId(mask)})`}
+        className={className}
+      />
+    );
+    circles.forEach((c, i) => {
+      if (c && mask & (1 << i)) node = <g clipPath={`url(#${clipId(i)})`}>{node}</g>;
+    });
+    return <g key={mask}>{node}</g>;
+  };
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full max-w-[720px]">
+      <defs>
+        {circles.map((c, i) =>
+          c ? (
+            <clipPath key={i} id={clipId(i)}>
+              <circle cx={c.cx} cy={c.cy} r={c.r} />
+            </clipPath>
+          ) : null
+        )}
+        {shown.map(({ mask }) => (
+          <mask key={mask} id={maskId(mask)}>
+            <rect x="0" y="0" width={W} height={H} fill="white" />
+            {circles.map((c, i) =>
+              !c || mask & (1 << i) ? null : (
+                <circle key={i} cx={c.cx} cy={c.cy} r={c.r} fill="black" />
+              )
+            )}
+          </mask>
+        ))}
+      </defs>
+
+      {/* Universo */}
+      <rect
+        x="4"
+        y="4"
+        width={W - 8}
+        height={H - 8}
+        rx="16"
+        className="stroke-slate-500/60"
+        strokeWidth={2}
+        fill="none"
+      />
+      <text x="18" y="30" className="fill-slate-400 text-[16px] font-semibold">
+        U
+      </text>
+
+      {/* Regiones */}
+      {highlight
+        ? shown.map(({ mask }) =>
+            regionShape(
+              mask,
+              "pointer-events-none transition " +
+                (highlight.has(mask)
+                  ? mask === 0
+                    ? "fill-emerald-400/20"
+                    : "fill-emerald-400/45"
+                  : mask === 0
+                  ? "fill-transparent"
+                  : "fill-slate-900/60")
+            )
+          )
+        : shown
+            .filter(({ mask }) => mask !== 0)
+            .map(({ mask }) => regionShape(mask, "pointer-events-none " + regionFill[mask]))}
+
+      {/* Círculos base */}
+      {circles.map((c, i) =>
+        c ? (
+          <circle
+            key={i}
+            cx={c.cx}
+            cy={c.cy}
+            r={c.r}
+            className="stroke-emerald-300/60"
+            strokeWidth={3}
+            fill="none"
+          />
+        ) : null
+      )}
+
+      {/* Etiquetas */}
+      {names.map((name, i) => {
+        const at = labels[i];
+        return at ? (
+          <text key={i} x={at.x} y={at.y} className="fill-slate-200 text-[20px] font-semibold">
+            {name}
+          </text>
+        ) : null;
+      })}
+
+      {/* Elementos dentro de cada región */}
+      <g className="font-medium fill-slate-100">
+        {shown.map(({ mask, items }) => {
+          const t = texts[mask];
+          if (regionText) {
+            return (
+              <text key={mask} x={t.x} y={t.y} className="text-[18px] font-semibold">
+                {regionText(mask)}
+              </text>
+            );
+          }
+          return (
+            <text key={mask} x={t.x} y={t.y} className="text-[12px]">
+              {lines(items).map((ln, j) => (
+                <tspan key={j} x={t.x} dy={j === 0 ? 0 : 14}>
+                  {ln}
+                </tspan>
+              ))}
+            </text>
+          );
+        })}
+      </g>
+    </svg>
+  );
+}
+
+// Con `highlight` se iluminan las regiones del resultado (incluida la de fuera, máscara 0)
+// y se atenúan las demás; sin él se usa la paleta fija por región.
+// Con `regionText` cada región muestra ese texto (p. ej. una cardinalidad) en vez de sus elementos.
+export function VennDiagram({
+  names,
+  regions,
+  highlight,
+  regionText,
+}: {
+  names: string[];
+  regions: Region[];
+  highlight?: Set<number>;
+  regionText?: (mask: number) => string;
+}) {
+  const layout = layouts[names.length];
+  if (!layout) {
+    return (
+      <p className="text-sm text-slate-400">
+        El diagrama se dibuja con 1 a 3 conjuntos; con {names.length} conjuntos usa el
+        listado de regiones.
+      </p>
+    );
+  }
+  return (
+    <RegionPicture
+      names={names}
+      regions={regions}
+      circles={layout.circles}
+      labels={layout.labels}
+      texts={layout.texts}
+      highlight={highlight}
+      regionText={regionText}
+    />
+  );
+}
+
+// ——— Euler proporcional ———
+// Área de cada círculo ∝ |X| y área de cada lente ∝ |X ∩ Y| (ajustada por bisección).
+// Contención → círculos anidados; disyunción → separados; regiones vacías no se rellenan.
+
+// Área de la intersección de dos círculos con centros a distancia d
+function lensArea(r1: number, r2: number, d: number): number {
+  if (d >= r1 + r2) return 0;
+  if (d <= Math.abs(r1 - r2)) return Math.PI * Math.min(r1, r2) ** 2;
+  const a = r1 * r1 * Math.acos((d * d + r1 * r1 - r2 * r2) / (2 * d * r1));
+  const b = r2 * r2 * Math.acos((d * d + r2 * r2 - r1 * r1) / (2 * d * r2));
+  const c = 0.5 * Math.sqrt((-d + r1 + r2) * (d + r1 - r2) * (d - r1 + r2) * (d + r1 + r2));
+  return a + b - c;
+}
+
+// Distancia entre centros para que la lente tenga el área pedida
+function distanceForOverlap(r1: number, r2: number, area: number): number {
+  let lo = Math.abs(r1 - r2);
+  let hi = r1 + r2;
+  for (let it = 0; it < 60; it++) {
+    const mid = (lo + hi) / 2;
+    if (lensArea(r1, r2, mid) > area) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+export type EulerLayout =
+  | {
+      ok: true;
+      circles: (CircleSpec | null)[];
+      labels: (Point | null)[];
+      texts: Record<number, Point>;
+      // Regiones con elementos que la figura no logra mostrar, o que muestra aunque estén vacías
+      missing: number[];
+      extra: number[];
+    }
+  | { ok: false; reason: string };
+
+export function eulerLayout(names: string[], regions: Region[]): EulerLayout {
+  const k = names.length;
+  if (k < 1 || k > 3) {
+    return { ok: false, reason: `El diagrama de Euler se dibuja con 1 a 3 conjuntos (hay ${k}).` };
+  }
+  const count = (mask: number) => regions[mask]?.items.length ?? 0;
+  const sizes = names.map((_, i) =>
+    regions.reduce((acc, r) => acc + (r.mask & (1 << i) ? r.items.length : 0), 0)
+  );
+  const overlap = (i: number, j: number) =>
+    regions.reduce(
+      (acc, r) => acc + ((r.mask & (1 << i)) && (r.mask & (1 << j)) ? r.items.length : 0),
+      0
+    );
+  const present = names.map((_, i) => i).filter((i) => sizes[i] > 0);
+  if (present.length === 0) {
+    return { ok: false, reason: "Todos los conjuntos están vacíos." };
+  }
+
+  // Radios en unidades donde el área de un elemento es 1
+  const radius = sizes.map((n) => Math.sqrt(n / Math.PI));
+  const dist = (i: number, j: number) => {
+    const o = overlap(i, j);
+    const [ri, rj] = [radius[i], radius[j]];
+    if (o === 0) return ri + rj + 0.15 * Math.min(ri, rj); // ajenos: separados
+    if (o === Math.min(sizes[i], sizes[j])) return Math.abs(ri - rj) / 2; // contención: anidados
+    return distanceForOverlap(ri, rj, o);
+  };
+
+  // Centros: el primero en el origen, el segundo sobre el eje x, el tercero por triangulación
+  const centers: Point[] = [];
+  present.forEach((i, n) => {
+    if (n === 0) centers.push({ x: 0, y: 0 });
+    else if (n === 1) centers.push({ x: dist(present[0], i), y: 0 });
+    else {
+      const dA = dist(present[0], i);
+      const dB = dist(present[1], i);
+      const dAB = centers[1].x;
+      const x = dAB > 1e-9 ? (dA * dA - dB * dB + dAB * dAB) / (2 * dAB) : dA;
+      // Si las distancias no forman triángulo se coloca lo más cerca posible (queda aproximado)
+      const y = Math.sqrt(Math.max(0, dA * dA - x * x));
+      centers.push({ x, y });
+    }
+  });
+
+  // Escala uniforme para que todo quepa en el marco (deja espacio para "fuera")
+  const pad = 40;
+  const minX = Math.min(...present.map((i, n) => centers[n].x - radius[i]));
+  const maxX = Math.max(...present.map((i, n) => centers[n].x + radius[i]));
+  const minY = Math.min(...present.map((i, n) => centers[n].y - radius[i]));
+  const maxY = Math.max(...present.map((i, n) => centers[n].y + radius[i]));
+  const scale = Math.min((W - 2 * pad) / (maxX - minX), (H - 2 * pad - 40) / (maxY - minY));
+  const offX = (W - (maxX - minX) * scale) / 2 - minX * scale;
+  const offY = (H - 40 - (maxY - minY) * scale) / 2 - minY * scale;
+
+  const circles: (CircleSpec | null)[] = names.map(() => null);
+  const labels: (Point | null)[] = names.map(() => null);
+  present.forEach((i, n) => {
+    const c = {
+      cx: offX + centers[n].x * scale,
+      cy: offY + centers[n].y * scale,
+      r: radius[i] * scale,
+    };
+    circles[i] = c;
+    labels[i] = {
+      x: Math.min(W - 30, Math.max(12, c.cx - c.r * 0.75)),
+      y: Math.max(24, c.cy - c.r * 0.75),
+    };
+  });
+
+  // Muestreo en rejilla: qué regiones aparecen de verdad y el punto más holgado de cada una
+  const best: Record<number, { p: Point; clearance: number }> = {};
+  for (let y = 12; y < H - 12; y += 6) {
+    for (let x = 12; x < W - 12; x += 6) {
+      let mask = 0;
+      let clearance = Math.min(x, W - x, y, H - y);
+      circles.forEach((c, i) => {
+        if (!c) return;
+        const d = Math.hypot(x - c.cx, y - c.cy);
+        if (d < c.r) mask |= 1 << i;
+        clearance = Math.min(clearance, Math.abs(d - c.r));
+      });
+      if (!best[mask] || clearance > best[mask].clearance) best[mask] = { p: { x, y }, clearance };
+    }
+  }
+
+  const texts: Record<number, Point> = { 0: { x: 24, y: 400 } };
+  const missing: number[] = [];
+  const extra: number[] = [];
+  for (let mask = 1; mask < 1 << k; mask++) {
+    const drawn = best[mask] !== undefined && best[mask].clearance >= 2;
+    if (count(mask) > 0 && !drawn) missing.push(mask);
+    if (count(mask) === 0 && drawn) extra.push(mask);
+    if (count(mask) > 0 && drawn) {
+      // El texto empieza a la izquierda del punto más holgado
+      const { p, clearance } = best[mask];
+      texts[mask] = { x: Math.round(p.x - Math.min(clearance, 60) * 0.8), y: p.y };
+    }
+  }
+  return { ok: true, circles, labels, texts, missing, extra };
+}
+
+export function EulerDiagram({
+  names,
+  regions,
+  highlight,
+}: {
+  names: string[];
+  regions: Region[];
+  highlight?: Set<number>;
+}) {
+  const layout = eulerLayout(names, regions);
+  if (!layout.ok || layout.missing.length > 0) {
+    // Sin una figura fiel, se vuelve al diagrama de Venn de siempre
+    return (
+      <div className="w-full">
+        <p className="text-xs text-amber-300 mb-2">
+          {layout.ok
+            ? `No se puede dibujar con círculos proporcionales sin perder regiones (${layout.missing
+                .map((m) => names.filter((_, i) => m & (1 << i)).join(" ∩ "))
+                .join("; ")}); se muestra el diagrama de Venn.`
+            : layout.reason + " Se muestra el diagrama de Venn."}
+        </p>
+        <VennDiagram names={names} regions={regions} highlight={highlight} />
+      </div>
+    );
+  }
+  const emptySets = names.filter((_, i) => !layout.circles[i]);
+  return (
+    <div className="w-full">
+      <RegionPicture
+        names={names}
+        regions={regions}
+        circles={layout.circles}
+        labels={layout.labels}
+        texts={layout.texts}
+        highlight={highlight}
+        onlyNonEmpty
+      />
+      {(emptySets.length > 0 || layout.extra.length > 0) && (
+        <p className="text-xs text-slate-400 mt-1">
+          {emptySets.length > 0 && `Conjuntos vacíos (sin círculo): ${emptySets.join(", ")}. `}
+          {layout.extra.length > 0 &&
+            `Aproximado: se ven traslapes vacíos en ${layout.extra
+              .map((m) => names.filter((_, i) => m & (1 << i)).join(" ∩ "))
+              .join("; ")}.`}
+        </p>
+      )}
+    </div>
+  );
+}